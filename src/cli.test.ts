@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CliIO, EXIT_PARTIAL_FAILURE, EXIT_SUCCESS, EXIT_USAGE, runCli } from './cli.js';
+
+const createIO = (stdin = '', env: Record<string, string> = {}) => {
+  const output = { stdout: '', stderr: '' };
+  const io: CliIO = {
+    stdin: (async function* () {
+      yield stdin;
+    })(),
+    stdout: { write: (chunk: string) => (output.stdout += chunk) },
+    stderr: { write: (chunk: string) => (output.stderr += chunk) },
+    env: { PARSERA_API_KEY: 'x'.repeat(32), ...env }
+  };
+  return { io, output };
+};
+
+describe('runCli', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+      const { url } = JSON.parse(init.body as string);
+      if (url.endsWith('/missing')) {
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({ data: [] }) });
+      }
+      return Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ data: [{ title: 'Hello, "world"', price: '$1' }] })
+      });
+    });
+  });
+
+  it('should extract a single URL as JSON', async () => {
+    const { io, output } = createIO();
+    const code = await runCli(
+      ['extract', 'https://example.com', '-a', 'title=Page title', '-a', 'price=Price'],
+      io
+    );
+
+    expect(code).toBe(EXIT_SUCCESS);
+    expect(JSON.parse(output.stdout)).toEqual([{ title: 'Hello, "world"', price: '$1' }]);
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+    expect(body.attributes).toEqual([
+      { name: 'title', description: 'Page title' },
+      { name: 'price', description: 'Price' }
+    ]);
+  });
+
+  it('should print CSV with escaped values', async () => {
+    const { io, output } = createIO();
+    await runCli(
+      ['extract', 'https://example.com', '-a', 'price=Price', '-a', 'title=Title', '-f', 'csv'],
+      io
+    );
+
+    expect(output.stdout).toBe('price,title\n$1,"Hello, ""world"""\n');
+  });
+
+  describe('with files', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'parsera-cli-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should read attributes and cookies from files', async () => {
+      const attributesFile = join(directory, 'attributes.json');
+      const cookiesFile = join(directory, 'cookies.json');
+      await writeFile(attributesFile, JSON.stringify({ title: 'Page title' }));
+      await writeFile(cookiesFile, JSON.stringify([{ name: 'a', value: 'b', sameSite: 'Lax' }]));
+
+      const { io } = createIO();
+      const code = await runCli(
+        [
+          'extract',
+          'https://example.com',
+          '--attributes-file',
+          attributesFile,
+          '--cookies-file',
+          cookiesFile,
+          '--proxy-country',
+          'Germany',
+          '--precision'
+        ],
+        io
+      );
+
+      expect(code).toBe(EXIT_SUCCESS);
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+      expect(body).toMatchObject({
+        attributes: [{ name: 'title', description: 'Page title' }],
+        cookies: [{ name: 'a', value: 'b', sameSite: 'Lax' }],
+        proxy_country: 'Germany',
+        mode: 'precision'
+      });
+    });
+
+    it('should only send the cookies of each target URL', async () => {
+      const cookiesFile = join(directory, 'cookies.txt');
+      await writeFile(
+        cookiesFile,
+        [
+          '.example.com\tTRUE\t/\tFALSE\t0\tshared\t1',
+          '.other.com\tTRUE\t/\tFALSE\t0\tother\t2'
+        ].join('\n')
+      );
+      const cookieNames = () =>
+        vi
+          .mocked(fetch)
+          .mock.calls.map(([, init]) => JSON.parse(init?.body as string))
+          .map(({ url, cookies = [] }) => [url, cookies.map(({ name }: { name: string }) => name)]);
+
+      await runCli(
+        ['extract', 'https://example.com', '-a', 'title=Title', '--cookies-file', cookiesFile],
+        createIO().io
+      );
+      expect(cookieNames()).toEqual([['https://example.com', ['shared']]]);
+
+      vi.mocked(fetch).mockClear();
+      const { io } = createIO('https://www.example.com/a\nhttps://shop.other.com/b\n');
+      await runCli(['extract', '-a', 'title=Title', '--cookies-file', cookiesFile, '-c', '1'], io);
+      expect(cookieNames()).toEqual([
+        ['https://www.example.com/a', ['shared']],
+        ['https://shop.other.com/b', ['other']]
+      ]);
+    });
+
+    it('should reject cookies without a domain for a list of URLs', async () => {
+      const cookiesFile = join(directory, 'cookies.txt');
+      await writeFile(cookiesFile, 'Set-Cookie: sid=secret; Path=/; HttpOnly\n');
+
+      const { io, output } = createIO('https://example.com/a\nhttps://other.com/b\n');
+      const code = await runCli(
+        ['extract', '-a', 'title=Title', '--cookies-file', cookiesFile],
+        io
+      );
+
+      expect(code).toBe(EXIT_USAGE);
+      expect(output.stderr).toContain('Cookie "sid" has no domain');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should read URLs from stdin and report partial failures', async () => {
+    const { io, output } = createIO('https://example.com/a\n\nhttps://example.com/missing\n');
+    const code = await runCli(['extract', '-a', 'title=Title', '-f', 'ndjson'], io);
+
+    expect(code).toBe(EXIT_PARTIAL_FAILURE);
+    expect(
+      output.stdout
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line))
+    ).toEqual([{ title: 'Hello, "world"', price: '$1', source_url: 'https://example.com/a' }]);
+    expect(output.stderr).toContain('https://example.com/missing: No data returned');
+  });
+
+  it('should reject a source_url attribute for batch CSV and NDJSON output', async () => {
+    const { io, output } = createIO('https://example.com/a\n');
+    const code = await runCli(['extract', '-a', 'source_url=Source', '-f', 'csv'], io);
+
+    expect(code).toBe(EXIT_USAGE);
+    expect(output.stderr).toContain('Attribute "source_url"');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should exit with a usage error when the API key is missing', async () => {
+    const { io, output } = createIO('', { PARSERA_API_KEY: '' });
+    const code = await runCli(['extract', 'https://example.com', '-a', 'title=Title'], io);
+
+    expect(code).toBe(EXIT_USAGE);
+    expect(output.stderr).toContain('PARSERA_API_KEY');
+  });
+
+  it('should exit with a usage error for invalid arguments', async () => {
+    const { io } = createIO();
+    expect(await runCli(['extract', 'https://example.com'], io)).toBe(EXIT_USAGE);
+    expect(await runCli(['extract', 'https://example.com', '-a', 'broken'], io)).toBe(EXIT_USAGE);
+    expect(await runCli(['extract', '--unknown'], io)).toBe(EXIT_USAGE);
+    expect(await runCli(['scrape'], io)).toBe(EXIT_USAGE);
+  });
+});
@@ -0,0 +1,288 @@
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import {
+  Parsera,
+  ParseraAttribute,
+  ParseraBatchResult,
+  ParseraCookie
+} from './services/parsera.js';
+import { ParseraValidationError } from './errors/parsera.js';
+import { collectColumns, escapeCsvField, toCsvLine } from './utils/csv.js';
+import { filterCookies, importCookies } from './utils/cookies.js';
+
+export const EXIT_SUCCESS = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_PARTIAL_FAILURE = 3;
+
+export type CliOutputFormat = 'json' | 'ndjson' | 'csv';
+
+export interface CliIO {
+  stdin: AsyncIterable<string | Buffer>;
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+  env: Record<string, string | undefined>;
+}
+
+const USAGE = `Usage: parsera extract [url] [options]
+
+Extracts structured data from a webpage. When no URL is given,
+URLs are read from stdin, one per line.
+
+Options:
+  -a, --attribute <name=description>  Attribute to extract (repeatable)
+  --attributes-file <path>            JSON file with attributes
+  --proxy-country <country>           Proxy country, e.g. UnitedStates or random
+  --cookies-file <path>               Cookies as JSON, storageState, cookies.txt or Set-Cookie lines
+  --precision                         Enable precision mode (10 credits)
+  -f, --format <json|ndjson|csv>      Output format (default: json)
+  -c, --concurrency <n>               Concurrent requests for URL lists (default: 5)
+  -h, --help                          Show this help
+
+Environment:
+  PARSERA_API_KEY                     Your Parsera API key (required)
+`;
+
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const parseAttributeFlag = (flag: string): ParseraAttribute => {
+  const separator = flag.indexOf('=');
+  if (separator <= 0 || separator === flag.length - 1) {
+    throw new CliUsageError(`Invalid attribute "${flag}", expected name=description`);
+  }
+  return { name: flag.slice(0, separator).trim(), description: flag.slice(separator + 1).trim() };
+};
+
+const readJsonFile = async (path: string): Promise<unknown> => {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new CliUsageError(`Could not read ${path}: ${message}`);
+  }
+};
+
+// Cookies are limited to those the browser would send to `url`, when given
+const loadCookies = async (path: string, url?: string): Promise<ParseraCookie[]> => {
+  try {
+    return importCookies(await readFile(path, 'utf8'), { url });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new CliUsageError(`Could not read ${path}: ${message}`);
+  }
+};
+
+const loadAttributes = async (path: string): Promise<ParseraAttribute[]> => {
+  const content = await readJsonFile(path);
+  if (Array.isArray(content)) return content as ParseraAttribute[];
+  if (content && typeof content === 'object') {
+    return Object.entries(content as Record<string, string>).map(([name, description]) => ({
+      name,
+      description
+    }));
+  }
+  throw new CliUsageError(`${path} must contain an object or an array of attributes`);
+};
+
+const readLines = async (stdin: AsyncIterable<string | Buffer>): Promise<string[]> => {
+  let content = '';
+  for await (const chunk of stdin) {
+    content += chunk.toString();
+  }
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+};
+
+/**
+ * Columns for tabular output: requested attributes first, then any extra keys returned
+ */
+const columnsFor = (leading: string[], rows: Record<string, string>[]) =>
+  Array.from(new Set([...leading, ...collectColumns(rows)]));
+
+const writeRows = (
+  io: CliIO,
+  format: CliOutputFormat,
+  rows: Record<string, string>[],
+  columns: string[]
+) => {
+  switch (format) {
+    case 'ndjson':
+      rows.forEach((row) => io.stdout.write(`${JSON.stringify(row)}\n`));
+      break;
+    case 'csv':
+      io.stdout.write(`${columns.map(escapeCsvField).join(',')}\n`);
+      rows.forEach((row) => io.stdout.write(`${toCsvLine(row, columns)}\n`));
+      break;
+    default:
+      io.stdout.write(`${JSON.stringify(rows, null, 2)}\n`);
+  }
+};
+
+// Column of batch CSV and NDJSON rows holding the URL they were extracted from
+const SOURCE_URL_COLUMN = 'source_url';
+
+const writeBatch = (
+  io: CliIO,
+  format: CliOutputFormat,
+  results: ParseraBatchResult[],
+  attributeNames: string[]
+) => {
+  if (format === 'json') {
+    const output = results.map((result) =>
+      result.success
+        ? { url: result.input.url, data: result.data }
+        : { url: result.input.url, error: result.error.message }
+    );
+    io.stdout.write(`${JSON.stringify(output, null, 2)}\n`);
+    return;
+  }
+
+  const rows = results.flatMap((result) =>
+    result.success
+      ? result.data.map((row) => ({ ...row, [SOURCE_URL_COLUMN]: result.input.url }))
+      : []
+  );
+  writeRows(io, format, rows, columnsFor([SOURCE_URL_COLUMN, ...attributeNames], rows));
+};
+
+/**
+ * Runs the `parsera` command line tool
+ * @param argv - Arguments without the node executable and script path
+ * @param io - Streams and environment, defaults to the current process
+ * @returns The process exit code
+ */
+export const runCli = async (
+  argv: string[],
+  io: CliIO = {
+    stdin: process.stdin,
+    stdout: process.stdout,
+    stderr: process.stderr,
+    env: process.env
+  }
+): Promise<number> => {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        attribute: { type: 'string', short: 'a', multiple: true },
+        'attributes-file': { type: 'string' },
+        'proxy-country': { type: 'string' },
+        'cookies-file': { type: 'string' },
+        precision: { type: 'boolean' },
+        format: { type: 'string', short: 'f', default: 'json' },
+        concurrency: { type: 'string', short: 'c', default: '5' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+
+    const [command, url, ...rest] = positionals;
+    if (values.help) {
+      io.stdout.write(USAGE);
+      return EXIT_SUCCESS;
+    }
+    if (!command) {
+      io.stderr.write(USAGE);
+      return EXIT_USAGE;
+    }
+    if (command !== 'extract') {
+      throw new CliUsageError(`Unknown command "${command}"`);
+    }
+    if (rest.length) {
+      throw new CliUsageError(`Unexpected arguments: ${rest.join(' ')}`);
+    }
+
+    const format = values.format as CliOutputFormat;
+    if (!['json', 'ndjson', 'csv'].includes(format)) {
+      throw new CliUsageError(`Unknown format "${format}", expected json, ndjson or csv`);
+    }
+
+    const concurrency = Number(values.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new CliUsageError('Concurrency must be a positive integer');
+    }
+
+    const attributes = [
+      ...(values['attributes-file'] ? await loadAttributes(values['attributes-file']) : []),
+      ...(values.attribute ?? []).map(parseAttributeFlag)
+    ];
+    if (!attributes.length) {
+      throw new CliUsageError('At least one attribute is required (-a or --attributes-file)');
+    }
+
+    const single = url && url !== '-' ? url : undefined;
+    if (!single && format !== 'json' && attributes.some(({ name }) => name === SOURCE_URL_COLUMN)) {
+      throw new CliUsageError(
+        `Attribute "${SOURCE_URL_COLUMN}" would be overwritten by the column holding each row's URL; rename it`
+      );
+    }
+    const cookies = values['cookies-file']
+      ? await loadCookies(values['cookies-file'], single)
+      : undefined;
+    // Without a single URL to bind them to, cookies without a domain would go to every host
+    const unbound = !single && cookies?.find((cookie) => !cookie.domain);
+    if (unbound) {
+      throw new CliUsageError(
+        `Cookie "${unbound.name}" has no domain; cookies for a list of URLs must set one`
+      );
+    }
+
+    const apiKey = io.env.PARSERA_API_KEY;
+    if (!apiKey) {
+      throw new CliUsageError('PARSERA_API_KEY environment variable is not set');
+    }
+
+    const parsera = new Parsera({ apiKey });
+    const shared = {
+      attributes,
+      proxyCountry: values['proxy-country'],
+      precisionMode: values.precision
+    };
+    const attributeNames = attributes.map(({ name }) => name);
+
+    if (single) {
+      const rows = await parsera.extract({ url: single, cookies, ...shared });
+      writeRows(io, format, rows, columnsFor(attributeNames, rows));
+      return EXIT_SUCCESS;
+    }
+
+    const urls = await readLines(io.stdin);
+    if (!urls.length) {
+      throw new CliUsageError('No URL given and none read from stdin');
+    }
+
+    const results = await parsera.extractMany(
+      urls.map((target) => ({
+        url: target,
+        cookies: cookies && filterCookies(cookies, { url: target }),
+        ...shared
+      })),
+      { concurrency }
+    );
+    writeBatch(io, format, results, attributeNames);
+
+    const failures = results.filter((result) => !result.success);
+    failures.forEach((result) => {
+      if (!result.success) io.stderr.write(`${result.input.url}: ${result.error.message}\n`);
+    });
+    if (!failures.length) return EXIT_SUCCESS;
+    return failures.length === results.length ? EXIT_FAILURE : EXIT_PARTIAL_FAILURE;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    io.stderr.write(`Error: ${message}\n`);
+    const usage =
+      error instanceof CliUsageError ||
+      error instanceof ParseraValidationError ||
+      (error instanceof TypeError &&
+        'code' in error &&
+        String(error.code).startsWith('ERR_PARSE_ARGS'));
+    return usage ? EXIT_USAGE : EXIT_FAILURE;
+  }
+};
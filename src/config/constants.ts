@@ -1,2 +1,59 @@
 export const PARSERA_API_BASE_URL = 'https://api.parsera.org/v1';
 export const DEFAULT_PROXY_COUNTRY = 'UnitedStates';
+
+/**
+ * Snapshot of the countries returned by `/proxy-countries`
+ * Used to validate `proxyCountry` when the endpoint cannot be reached
+ */
+export const PROXY_COUNTRIES: readonly string[] = [
+  'Argentina',
+  'Australia',
+  'Austria',
+  'Belgium',
+  'Brazil',
+  'Bulgaria',
+  'Canada',
+  'Chile',
+  'China',
+  'Colombia',
+  'CzechRepublic',
+  'Denmark',
+  'Egypt',
+  'Finland',
+  'France',
+  'Germany',
+  'Greece',
+  'HongKong',
+  'Hungary',
+  'India',
+  'Indonesia',
+  'Ireland',
+  'Israel',
+  'Italy',
+  'Japan',
+  'Malaysia',
+  'Mexico',
+  'Netherlands',
+  'NewZealand',
+  'Norway',
+  'Pakistan',
+  'Philippines',
+  'Poland',
+  'Portugal',
+  'Romania',
+  'SaudiArabia',
+  'Singapore',
+  'SouthAfrica',
+  'SouthKorea',
+  'Spain',
+  'Sweden',
+  'Switzerland',
+  'Taiwan',
+  'Thailand',
+  'Turkey',
+  'Ukraine',
+  'UnitedArabEmirates',
+  'UnitedKingdom',
+  'UnitedStates',
+  'Vietnam'
+];
@@ -0,0 +1,172 @@
+export interface ParseraErrorDetails {
+  /** HTTP status code returned by the API, if any */
+  status?: number;
+  /** Error code reported by the API in the error body */
+  code?: string;
+  /** Number of attempts made before the error was thrown */
+  attempts?: number;
+  /** The underlying error that caused this one */
+  cause?: unknown;
+  /** Delay (in milliseconds) requested by the API's `Retry-After` header */
+  retryAfter?: number;
+}
+
+/**
+ * Base class for every error thrown by the SDK.
+ * Use `instanceof` checks on the subclasses to tell failures apart.
+ */
+export class ParseraBaseError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly cause?: unknown;
+  attempts?: number;
+
+  constructor(message: string, details: ParseraErrorDetails = {}) {
+    super(message);
+    this.name = 'ParseraBaseError';
+    this.status = details.status;
+    this.code = details.code;
+    this.attempts = details.attempts;
+    this.cause = details.cause;
+  }
+}
+
+export interface ParseraValidationIssue {
+  /** Dotted path of the invalid field, e.g. "attributes.price" */
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when the options passed to the client are invalid
+ * No request is sent when this error is thrown
+ */
+export class ParseraValidationError extends ParseraBaseError {
+  /** Invalid fields, when the options were checked field by field */
+  readonly issues: ParseraValidationIssue[];
+
+  constructor(
+    message: string,
+    details: ParseraErrorDetails & { issues?: ParseraValidationIssue[] } = {}
+  ) {
+    super(message, details);
+    this.name = 'ParseraValidationError';
+    this.issues = details.issues ?? [];
+  }
+}
+
+/**
+ * Thrown when the API responds with a non-2xx status code
+ * More specific subclasses exist for the common status codes
+ */
+export class ParseraAPIError extends ParseraBaseError {
+  declare readonly status: number;
+  /** Delay (in milliseconds) requested by the API's `Retry-After` header */
+  readonly retryAfter?: number;
+
+  constructor(message: string, details: ParseraErrorDetails & { status: number }) {
+    super(message, details);
+    this.name = 'ParseraAPIError';
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * Thrown on 401/403 responses
+ */
+export class ParseraAuthError extends ParseraAPIError {
+  constructor(message: string, details: ParseraErrorDetails & { status: number }) {
+    super(message, details);
+    this.name = 'ParseraAuthError';
+  }
+}
+
+/**
+ * Thrown on 429 responses once retries are exhausted
+ */
+export class ParseraRateLimitError extends ParseraAPIError {
+  constructor(message: string, details: ParseraErrorDetails & { status: number }) {
+    super(message, details);
+    this.name = 'ParseraRateLimitError';
+  }
+}
+
+/**
+ * Thrown on 400/422 responses
+ */
+export class ParseraBadRequestError extends ParseraAPIError {
+  constructor(message: string, details: ParseraErrorDetails & { status: number }) {
+    super(message, details);
+    this.name = 'ParseraBadRequestError';
+  }
+}
+
+/**
+ * Thrown on 5xx responses
+ */
+export class ParseraServerError extends ParseraAPIError {
+  constructor(message: string, details: ParseraErrorDetails & { status: number }) {
+    super(message, details);
+    this.name = 'ParseraServerError';
+  }
+}
+
+/**
+ * Thrown when a request exceeds the configured timeout
+ */
+export class ParseraTimeoutError extends ParseraBaseError {
+  constructor(message = 'Request timed out', details: ParseraErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ParseraTimeoutError';
+  }
+}
+
+/**
+ * Thrown when a request is cancelled through the caller's AbortSignal
+ */
+export class ParseraAbortError extends ParseraBaseError {
+  constructor(message = 'Request was aborted', details: ParseraErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ParseraAbortError';
+  }
+}
+
+/**
+ * Thrown when the request could not reach the API (DNS, connection reset, etc.)
+ */
+export class ParseraNetworkError extends ParseraBaseError {
+  constructor(message: string, details: ParseraErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ParseraNetworkError';
+  }
+}
+
+/**
+ * Thrown when the API succeeds but returns no rows
+ */
+export class ParseraNoDataError extends ParseraBaseError {
+  constructor(
+    message = 'No data returned from Parsera API. Make sure the website contains the data and the attribute descriptions are clear.',
+    details: ParseraErrorDetails = {}
+  ) {
+    super(message, details);
+    this.name = 'ParseraNoDataError';
+  }
+}
+
+/**
+ * Thrown before sending a request that could exceed the client's credit budget
+ */
+export class ParseraBudgetExceededError extends ParseraBaseError {
+  /** Credits consumed when the call was rejected */
+  readonly used: number;
+  /** Budget limit */
+  readonly limit: number;
+
+  constructor(message: string, details: ParseraErrorDetails & { used: number; limit: number }) {
+    super(message, details);
+    this.name = 'ParseraBudgetExceededError';
+    this.used = details.used;
+    this.limit = details.limit;
+  }
+}
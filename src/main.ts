@@ -1,18 +1,170 @@
 export { Parsera } from './services/parsera.js';
+export { RateLimiter } from './services/rate-limiter.js';
+export type { RateLimiterOptions } from './services/rate-limiter.js';
+export type { ParseraFetch, ParseraTransportOptions } from './services/transport.js';
+export { CREDIT_COSTS } from './services/credits.js';
+export type {
+  ParseraBudgetOptions,
+  ParseraBudgetWarning,
+  ParseraCreditUsage
+} from './services/credits.js';
+export { ParseraSpanStatusCode } from './services/telemetry.js';
+export type {
+  ParseraTelemetryOptions,
+  ParseraTracer,
+  ParseraSpan,
+  ParseraMeter,
+  ParseraCounter,
+  ParseraHistogram,
+  ParseraAttributes,
+  ParseraAttributeValue
+} from './services/telemetry.js';
+export {
+  importCookies,
+  parseNetscapeCookies,
+  parseCookieJson,
+  parseStorageState,
+  parseSetCookie,
+  filterCookies
+} from './utils/cookies.js';
+export type { CookieImportOptions, ExportedCookie, StorageState } from './utils/cookies.js';
+export { writeCsv, writeNdjson, writeJson, exportResults } from './services/exporters.js';
+export type {
+  ExportFormat,
+  ExportRow,
+  ExportBatch,
+  ExportInput,
+  ExportOptions
+} from './services/exporters.js';
+export type {
+  CrawlOptions,
+  CrawlPage,
+  CrawlPagination,
+  TemplatePagination,
+  NextLinkPagination
+} from './services/crawler.js';
+export { Monitor, MemorySnapshotStore, FileSnapshotStore } from './services/monitor.js';
+export { TemplateRegistry, BUILT_IN_TEMPLATES } from './services/templates.js';
+export {
+  trimWhitespace,
+  resolveUrls,
+  parseNumbers,
+  normalizeDates,
+  dropEmptyRows,
+  dedupeRows
+} from './services/transforms.js';
+export type {
+  ParseraTransform,
+  TransformContext,
+  RowKey,
+  FieldsOption,
+  ParseNumbersOptions,
+  NormalizeDatesOptions
+} from './services/transforms.js';
+export type { ExtractionTemplate } from './services/templates.js';
+export { checkQuality } from './services/quality.js';
+export type {
+  QualityRules,
+  QualityMatcher,
+  QualityReport,
+  QualityIssue
+} from './services/quality.js';
+export { ExtractionQueue } from './services/queue.js';
+export type {
+  ExtractionQueueOptions,
+  QueueJob,
+  QueueJobInput,
+  QueueJobStatus,
+  QueueProgress,
+  QueueResult,
+  QueueRunOptions
+} from './services/queue.js';
+export type {
+  MonitorOptions,
+  MonitorSnapshot,
+  SnapshotStore,
+  FileSnapshotStoreOptions,
+  MonitorRowEvent,
+  MonitorChangeEvent,
+  MonitorCheckResult
+} from './services/monitor.js';
+export type {
+  ParseraMiddleware,
+  ParseraNext,
+  ParseraRequestContext,
+  ParseraRequestPayload,
+  ParseraResponsePayload
+} from './services/middleware.js';
+export { MemoryCacheStore, FileCacheStore, createCacheKey } from './services/cache.js';
+export type {
+  CacheStore,
+  ParseraCacheOptions,
+  MemoryCacheStoreOptions,
+  FileCacheStoreOptions
+} from './services/cache.js';
+export {
+  ParseraBaseError,
+  ParseraValidationError,
+  ParseraAPIError,
+  ParseraAuthError,
+  ParseraRateLimitError,
+  ParseraBadRequestError,
+  ParseraServerError,
+  ParseraTimeoutError,
+  ParseraAbortError,
+  ParseraNetworkError,
+  ParseraNoDataError,
+  ParseraBudgetExceededError
+} from './errors/parsera.js';
+export type { ParseraErrorDetails, ParseraValidationIssue } from './errors/parsera.js';
+export { PROXY_COUNTRIES } from './config/constants.js';
 export type {
   ParseraOptions,
   ParseraRetryOptions,
   ParseraAttribute,
   ParseraCookie,
   ExtractOptions,
+  ParseOptions,
+  ExtractMarkdownOptions,
+  ParseraMarkdownResult,
+  TypedExtractOptions,
+  ExtractManyUrlsInput,
+  ExtractManyOptions,
+  ExtractStreamUrlsInput,
+  ExtractStreamOptions,
+  ParseraExtractResult,
+  ParseraBatchResult,
+  ParseraBatchProgress,
+  ParseraRetryContext
+} from './services/parsera.js';
+export type {
+  ParseraEventMap,
+  ParseraEventName,
+  ParseraEventPattern,
+  ParseraEventsMatching,
   ParseraEventType,
   ParseraEvent,
+  ParseraTypedEvent,
   ParseraEventHandler,
+  ParseraTypedEventHandler,
   ParseraEventOptions
-} from './services/parsera.js';
+} from './services/events.js';
 export type {
   BaseInput,
   ParseraResponse,
   ParseraError,
-  ParseraRequestBody
+  ParseraRequestBody,
+  ParseraParseRequestBody,
+  ParseraMarkdownRequestBody,
+  ParseraMarkdownResponse
 } from './types/parsera.js';
+export { typedAttributesToSchema, schemaToAttributes, coerceRows } from './schemas/extraction.js';
+export type {
+  ParseraFieldType,
+  ParseraTypedAttribute,
+  ParseraTypedAttributeMap,
+  InferTypedAttributes,
+  ParseraFieldIssue,
+  ParseraRowReport,
+  TypedExtractResult
+} from './schemas/extraction.js';
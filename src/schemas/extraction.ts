@@ -0,0 +1,242 @@
+import { z } from 'zod';
+
+export type ParseraFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'url';
+
+export interface ParseraTypedAttribute {
+  /**
+   * Type the extracted value is coerced to
+   */
+  type: ParseraFieldType;
+
+  /**
+   * Natural language description of what to extract
+   */
+  description: string;
+
+  /**
+   * Whether rows missing this attribute are still considered valid
+   * @default false
+   */
+  optional?: boolean;
+}
+
+export type ParseraTypedAttributeMap = Record<string, ParseraTypedAttribute>;
+
+interface FieldTypeMap {
+  string: string;
+  number: number;
+  integer: number;
+  boolean: boolean;
+  date: Date;
+  url: string;
+}
+
+/**
+ * Infers the row type produced by a typed attribute map
+ */
+export type InferTypedAttributes<M extends ParseraTypedAttributeMap> = {
+  [K in keyof M]: M[K]['optional'] extends true
+    ? FieldTypeMap[M[K]['type']] | undefined
+    : FieldTypeMap[M[K]['type']];
+};
+
+export interface ParseraFieldIssue {
+  /** Name of the attribute that failed */
+  field: string;
+  /** Raw value returned by the API */
+  value: unknown;
+  /** Reason the value was rejected */
+  message: string;
+}
+
+export interface ParseraRowReport {
+  /** Position of the row in the API response */
+  index: number;
+  /** Whether the row passed validation and is included in `data` */
+  valid: boolean;
+  /** Row as returned by the API, before coercion */
+  raw: Record<string, string>;
+  /** Fields that failed coercion or validation */
+  issues: ParseraFieldIssue[];
+}
+
+export interface TypedExtractResult<T> {
+  /** Rows that were coerced and validated successfully */
+  data: T[];
+  /** One report per row returned by the API */
+  report: ParseraRowReport[];
+}
+
+const fieldSchemas: Record<ParseraFieldType, () => z.ZodTypeAny> = {
+  string: () => z.string(),
+  number: () => z.number(),
+  integer: () => z.number().int(),
+  boolean: () => z.boolean(),
+  date: () => z.date(),
+  url: () => z.string().url()
+};
+
+/**
+ * Builds a zod object schema from a typed attribute map
+ * @param attributes - Map of attribute names to their type and description
+ * @returns A zod object schema carrying the descriptions
+ */
+export const typedAttributesToSchema = (attributes: ParseraTypedAttributeMap) => {
+  const shape: z.ZodRawShape = {};
+  for (const [name, { type, description, optional }] of Object.entries(attributes)) {
+    const field = fieldSchemas[type]().describe(description);
+    shape[name] = optional ? field.optional() : field;
+  }
+  return z.object(shape);
+};
+
+/**
+ * Derives the attribute list sent to the API from a zod object schema
+ * Field descriptions set with `.describe()` are used, falling back to the field name
+ */
+export const schemaToAttributes = (schema: z.AnyZodObject) =>
+  Object.entries(schema.shape as z.ZodRawShape).map(([name, field]) => ({
+    name,
+    description: field.description ?? name
+  }));
+
+const unwrap = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodNullable ||
+    schema instanceof z.ZodDefault
+  ) {
+    return unwrap(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return unwrap(schema._def.schema);
+  }
+  return schema;
+};
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1']);
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0']);
+
+// Plain decimals, and decimals grouped by commas in thousands, e.g. "1,299.00"
+const NUMBER = /^[+-]?(?:\d+(?:\.\d+)?|\.\d+)$/;
+const GROUPED_NUMBER = /^[+-]?\d{1,3}(?:,\d{3})+(?:\.\d+)?$/;
+
+const ISO_DATE =
+  /^(\d{4}-\d{2}-\d{2})(?:([T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(Z|[+-]\d{2}:?\d{2})?)?$/;
+const MONTH_NAME = /\b(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?(?:\s|,|$)/i;
+const YEAR = /\b\d{4}\b/;
+// "UTC", "GMT", or an offset after a time such as "10:00 +02:00"
+const TIME_ZONE = /\b(?:UTC|GMT)\b|\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?\s*(?:Z|[+-]\d{2}:?\d{2})\b/i;
+
+/**
+ * Parses prices and numbers such as "$1,299.00" or "1 299 €"
+ * Only currency symbols, spaces and thousands separators are dropped, so text like
+ * "4.5 out of 5" or "1.299,00" (unless the decimal separator is ",") is not a number
+ */
+export const parseNumber = (
+  text: string,
+  decimalSeparator: '.' | ',' = '.'
+): number | undefined => {
+  let compact = text.replace(/[\p{Sc}\s]/gu, '');
+  if (decimalSeparator === ',') {
+    // "1.299,50" is read as "1,299.50"
+    compact = compact.replace(/[.,]/g, (separator) => (separator === '.' ? ',' : '.'));
+  }
+  if (GROUPED_NUMBER.test(compact)) return Number(compact.replace(/,/g, ''));
+  return NUMBER.test(compact) ? Number(compact) : undefined;
+};
+
+/**
+ * Parses ISO 8601 dates, and dates spelling out the month with a four-digit year,
+ * e.g. "March 5, 2024"; numeric forms such as "03/05/2024" are ambiguous and rejected
+ * Dates without a time zone are read in UTC, whatever the host's time zone
+ */
+export const parseDate = (text: string): Date | undefined => {
+  const iso = ISO_DATE.exec(text);
+  let utc = text;
+  if (iso) {
+    // Date.parse rolls impossible days over, e.g. "2024-02-30" to March 1
+    const [year, month, day] = iso[1].split('-').map(Number);
+    const calendar = new Date(Date.UTC(year, month - 1, day));
+    if (calendar.getUTCMonth() !== month - 1 || calendar.getUTCDate() !== day) return undefined;
+    // Date-only forms are already read in UTC, date-times in local time
+    if (iso[2] && !iso[3]) utc = `${text}Z`;
+  } else if (!MONTH_NAME.test(text) || !YEAR.test(text)) {
+    return undefined;
+  } else if (!TIME_ZONE.test(text)) {
+    utc = `${text} UTC`;
+  }
+  const time = Date.parse(utc);
+  return Number.isNaN(time) ? undefined : new Date(time);
+};
+
+/**
+ * Coerces a raw string returned by the API towards the type expected by the schema
+ * Values that cannot be coerced are returned untouched so validation reports them
+ */
+const coerceValue = (value: unknown, schema: z.ZodTypeAny): unknown => {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value !== 'string') return value;
+
+  const trimmed = value.trim();
+  if (trimmed === '') return undefined;
+
+  const base = unwrap(schema);
+  if (base instanceof z.ZodNumber) {
+    return parseNumber(trimmed) ?? value;
+  }
+  if (base instanceof z.ZodBoolean) {
+    const lower = trimmed.toLowerCase();
+    if (TRUE_VALUES.has(lower)) return true;
+    if (FALSE_VALUES.has(lower)) return false;
+    return value;
+  }
+  if (base instanceof z.ZodDate) {
+    return parseDate(trimmed) ?? value;
+  }
+  if (base instanceof z.ZodString) {
+    return trimmed;
+  }
+  return value;
+};
+
+/**
+ * Coerces and validates raw rows returned by the API against a zod object schema
+ * @param rows - Rows returned by the API
+ * @param schema - Schema describing the expected row shape
+ * @returns Valid rows and a per-row report of fields that failed
+ */
+export const coerceRows = <S extends z.AnyZodObject>(
+  rows: Record<string, string>[],
+  schema: S
+): TypedExtractResult<z.infer<S>> => {
+  const shape = schema.shape as z.ZodRawShape;
+  const data: z.infer<S>[] = [];
+  const report: ParseraRowReport[] = [];
+
+  rows.forEach((raw, index) => {
+    const coerced: Record<string, unknown> = { ...raw };
+    for (const [name, field] of Object.entries(shape)) {
+      coerced[name] = coerceValue(raw[name], field);
+    }
+
+    const result = schema.safeParse(coerced);
+    if (result.success) {
+      data.push(result.data);
+      report.push({ index, valid: true, raw, issues: [] });
+      return;
+    }
+
+    report.push({
+      index,
+      valid: false,
+      raw,
+      issues: result.error.errors.map((issue) => {
+        const field = String(issue.path[0] ?? '');
+        return { field, value: raw[field], message: issue.message };
+      })
+    });
+  });
+
+  return { data, report };
+};
@@ -1,40 +1,151 @@
 import { z } from 'zod';
-import { PARSERA_API_BASE_URL } from '../config/constants.js';
+import { PARSERA_API_BASE_URL, PROXY_COUNTRIES } from '../config/constants.js';
+import { globalFetch, ParseraFetch } from '../services/transport.js';
+
+export interface ProxyCountriesOptions {
+  /**
+   * Fetch implementation used for the lookup
+   * @default globalThis.fetch
+   */
+  fetch?: ParseraFetch;
+
+  /**
+   * Base URL of the Parsera API
+   * @default PARSERA_API_BASE_URL
+   */
+  baseUrl?: string;
+
+  /**
+   * API key sent with the lookup
+   */
+  apiKey?: string;
+}
 
 export const AttributeSchema = z.object({
   name: z.string().min(1, 'Attribute name must not be empty'),
   description: z.string().min(1, 'Attribute description must not be empty')
 });
 
-export const CookieSchema = z
-  .object({
-    sameSite: z.enum(['None', 'Lax', 'Strict'])
-  })
-  .catchall(z.string());
+const AttributeListSchema = z.array(AttributeSchema).min(1, 'At least one attribute is required');
+
+const AttributeMapSchema = z
+  .record(z.string().min(1, 'Attribute description must not be empty'))
+  .refine((attributes) => Object.keys(attributes).length > 0, 'At least one attribute is required');
+
+/**
+ * Attributes as a list of `{ name, description }` or a name-description map
+ * Issues point at the offending entry, e.g. `attributes.price`
+ */
+export const AttributesSchema = z.unknown().superRefine((attributes, ctx) => {
+  const schema = Array.isArray(attributes) ? AttributeListSchema : AttributeMapSchema;
+  const result = schema.safeParse(attributes);
+  if (!result.success) {
+    result.error.issues.forEach((issue) => ctx.addIssue(issue as z.IssueData));
+  }
+});
+
+export const CookieSchema = z.object({
+  name: z.string().min(1, 'Cookie name must not be empty'),
+  value: z.string(),
+  domain: z.string().optional(),
+  path: z.string().optional(),
+  expires: z.number().optional(),
+  secure: z.boolean().optional(),
+  httpOnly: z.boolean().optional(),
+  sameSite: z.enum(['None', 'Lax', 'Strict'])
+});
+
+const ProxyCountriesResponseSchema = z.record(z.string());
+
+/**
+ * Fetches the names of the supported proxy countries from Parsera API
+ * @param options - Fetch implementation, base URL and API key to use
+ * @throws {Error} When the request fails or the response is not a country map
+ * @returns Country names accepted as `proxyCountry`, besides "random"
+ */
+export const fetchProxyCountries = async ({
+  fetch = globalFetch,
+  baseUrl = PARSERA_API_BASE_URL,
+  apiKey
+}: ProxyCountriesOptions = {}): Promise<string[]> => {
+  const response = await fetch(
+    `${baseUrl}/proxy-countries`,
+    apiKey ? { headers: { 'X-API-KEY': apiKey } } : {}
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to fetch proxy countries: ${response.statusText}`);
+  }
+  return Object.keys(ProxyCountriesResponseSchema.parse(await response.json()));
+};
+
+/**
+ * Creates a schema accepting "random" and the given proxy countries
+ * @param countries - Accepted country names
+ */
+export const createProxyCountrySchema = (countries: readonly string[] = PROXY_COUNTRIES) =>
+  z.string().refine(
+    (country) => country === 'random' || countries.includes(country),
+    (country) => ({ message: `Unsupported proxy country "${country}"` })
+  );
 
 /**
  * Fetches the list of valid proxy countries from Parsera API
- * @returns A Zod enum schema of valid proxy countries
+ * @param options - Fetch implementation, base URL and API key to use
+ * @returns A Zod schema of valid proxy countries, from the bundled list if the API call fails
  */
-export const getProxyCountriesSchema = async () => {
+export const getProxyCountriesSchema = async (options: ProxyCountriesOptions = {}) => {
   try {
-    const response = await fetch(`${PARSERA_API_BASE_URL}/proxy-countries`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch proxy countries: ${response.statusText}`);
-    }
-    const data = (await response.json()) as Record<string, string>;
-    const proxyCountries = Object.keys(data);
-    return z.enum(['random', ...proxyCountries] as [string, ...string[]]);
-  } catch (error) {
-    // Silently fallback to basic string validation if API call fails
-    // This allows the SDK to work even if the proxy countries endpoint is unavailable
-    return z.string();
+    return createProxyCountrySchema(await fetchProxyCountries(options));
+  } catch {
+    // Fall back to the bundled list so validation keeps working offline
+    return createProxyCountrySchema(PROXY_COUNTRIES);
   }
 };
 
+export const QualityRulesSchema = z.object({
+  required: z.array(z.string()).optional(),
+  minRows: z.number().int().nonnegative('minRows must be a non-negative integer').optional(),
+  match: z
+    .record(
+      z.union([z.instanceof(RegExp), z.function()], {
+        errorMap: () => ({ message: 'Expected a RegExp or a predicate function' })
+      })
+    )
+    .optional(),
+  escalate: z.boolean().optional()
+});
+
+/**
+ * Creates the schema of `extract` options
+ * @param countries - Accepted proxy countries; any name is accepted when omitted
+ */
+export const createExtractOptionsSchema = (countries?: readonly string[]) =>
+  z.object({
+    url: z.string().url('Invalid URL format'),
+    attributes: AttributesSchema,
+    proxyCountry: (countries ? createProxyCountrySchema(countries) : z.string()).optional(),
+    cookies: z.array(CookieSchema).optional(),
+    precisionMode: z.boolean().optional(),
+    cache: z.boolean().optional(),
+    tags: z.array(z.string()).optional(),
+    quality: QualityRulesSchema.optional()
+  });
+
+export const TemplateSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Template name must not be empty')
+    .regex(/^[^@\s]+$/, 'Template name must not contain "@" or spaces'),
+  version: z.number().int().positive('Template version must be a positive integer').optional(),
+  description: z.string().optional(),
+  attributes: AttributesSchema,
+  precisionMode: z.boolean().optional(),
+  proxyCountry: z.string().optional()
+});
+
 // Create the input schema with async proxy country validation
-export const createInputSchema = async () => {
-  const proxyCountriesSchema = await getProxyCountriesSchema();
+export const createInputSchema = async (options: ProxyCountriesOptions = {}) => {
+  const proxyCountriesSchema = await getProxyCountriesSchema(options);
 
   return z.object({
     url: z.string().url('Invalid URL format'),
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createCacheKey, FileCacheStore, MemoryCacheStore } from './cache.js';
+import { Parsera } from './parsera.js';
+
+describe('MemoryCacheStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryCacheStore<number>({ maxEntries: 2 });
+    await store.set('a', 1, 1000);
+    await store.set('b', 2, 1000);
+    await store.get('a');
+    await store.set('c', 3, 1000);
+
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe(3);
+  });
+
+  it('should expire entries after their ttl', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryCacheStore<number>();
+    await store.set('a', 1, 100);
+
+    vi.advanceTimersByTime(100);
+    expect(await store.get('a')).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'parsera-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist entries across instances', async () => {
+    await new FileCacheStore({ directory }).set('key', [{ title: 'Test' }], 1000);
+
+    const store = new FileCacheStore({ directory });
+    expect(await store.get('key')).toEqual([{ title: 'Test' }]);
+
+    await store.delete('key');
+    expect(await store.get('key')).toBeUndefined();
+  });
+
+  it('should ignore expired entries', async () => {
+    const store = new FileCacheStore({ directory });
+    await store.set('key', 'value', -1);
+    expect(await store.get('key')).toBeUndefined();
+  });
+});
+
+describe('createCacheKey', () => {
+  const body = {
+    url: 'https://example.com',
+    attributes: [
+      { name: 'title', description: 'Extract the title' },
+      { name: 'price', description: 'Get the price' }
+    ],
+    proxy_country: 'UnitedStates'
+  };
+
+  it('should not depend on attribute order', () => {
+    const reordered = { ...body, attributes: [...body.attributes].reverse() };
+    expect(createCacheKey(reordered)).toBe(createCacheKey(body));
+  });
+
+  it('should change with mode, proxy country and cookies', () => {
+    const key = createCacheKey(body);
+    expect(createCacheKey({ ...body, mode: 'precision' })).not.toBe(key);
+    expect(createCacheKey({ ...body, proxy_country: 'Germany' })).not.toBe(key);
+    expect(
+      createCacheKey({ ...body, cookies: [{ name: 'a', value: '1', sameSite: 'Lax' }] })
+    ).not.toBe(key);
+  });
+});
+
+describe('Parsera cache', () => {
+  const apiKey = 'x'.repeat(32);
+  const options = { url: 'https://example.com', attributes: { title: 'Extract the title' } };
+
+  beforeEach(() => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ data: [{ title: 'Test' }] })
+    });
+  });
+
+  it('should serve repeated extractions from the cache', async () => {
+    const parsera = new Parsera({ apiKey, cache: true });
+    const hit = vi.fn();
+    const miss = vi.fn();
+    parsera.on('cache:hit', hit);
+    parsera.on('cache:miss', miss);
+
+    const first = await parsera.extract(options);
+    const second = await parsera.extract(options);
+
+    expect(second).toEqual(first);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(miss).toHaveBeenCalledTimes(1);
+    expect(hit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should bypass the cache when disabled per call', async () => {
+    const store = new MemoryCacheStore();
+    const parsera = new Parsera({ apiKey, cache: { store, ttl: 1000 } });
+
+    await parsera.extract(options);
+    await parsera.extract({ ...options, cache: false });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(store.size).toBe(1);
+  });
+
+  it('should not cache when the client has no cache', async () => {
+    const parsera = new Parsera({ apiKey });
+    await parsera.extract(options);
+    await parsera.extract(options);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
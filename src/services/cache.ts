@@ -0,0 +1,179 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ParseraRequestBody } from '../types/parsera.js';
+
+/**
+ * Storage backend used by the client's response cache.
+ * Implement this interface to plug in your own store (Redis, Memcached, ...).
+ * Values are plain JSON-serializable data.
+ */
+export interface CacheStore<T = unknown> {
+  /**
+   * Returns the cached value, or undefined when missing or expired
+   */
+  get(key: string): Promise<T | undefined>;
+
+  /**
+   * Stores a value for `ttl` milliseconds
+   */
+  set(key: string, value: T, ttl: number): Promise<void>;
+
+  /**
+   * Removes a single entry
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Removes every entry
+   */
+  clear(): Promise<void>;
+}
+
+export interface ParseraCacheOptions {
+  /**
+   * Where cached responses are stored
+   * @default new MemoryCacheStore()
+   */
+  store?: CacheStore;
+
+  /**
+   * Time (in milliseconds) a cached response stays valid
+   * @default 3600000 (1 hour)
+   */
+  ttl?: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface MemoryCacheStoreOptions {
+  /**
+   * Maximum number of entries kept; the least recently used entry is evicted first
+   * @default 1000
+   */
+  maxEntries?: number;
+}
+
+/**
+ * In-memory LRU cache store
+ */
+export class MemoryCacheStore<T = unknown> implements CacheStore<T> {
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, CacheEntry<T>>();
+
+  constructor({ maxEntries = 1000 }: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = maxEntries;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+
+    // Re-insert so the entry becomes the most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: T, ttl: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export interface FileCacheStoreOptions {
+  /**
+   * Directory the cache files are written to
+   * Created on first write if it does not exist
+   */
+  directory: string;
+}
+
+/**
+ * Filesystem cache store writing one JSON file per entry
+ * Survives process restarts, useful for development and reprocessing jobs
+ */
+export class FileCacheStore<T = unknown> implements CacheStore<T> {
+  private readonly directory: string;
+
+  constructor({ directory }: FileCacheStoreOptions) {
+    this.directory = directory;
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${key}.json`);
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    let entry: CacheEntry<T>;
+    try {
+      entry = JSON.parse(await readFile(this.pathFor(key), 'utf8')) as CacheEntry<T>;
+    } catch {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: T, ttl: number): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const entry: CacheEntry<T> = { value, expiresAt: Date.now() + ttl };
+    await writeFile(this.pathFor(key), JSON.stringify(entry), 'utf8');
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.directory, { recursive: true, force: true });
+  }
+}
+
+const sortKeys = (value: object) =>
+  Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)));
+
+/**
+ * Builds a stable cache key for an extraction request
+ * Attribute and cookie order does not affect the key
+ * @param body - Request body sent to the API
+ * @returns A hex-encoded SHA-256 hash
+ */
+export const createCacheKey = (body: ParseraRequestBody): string => {
+  const normalized = {
+    url: body.url,
+    attributes: [...body.attributes]
+      .map(({ name, description }) => ({ name, description: description.trim() }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    mode: body.mode ?? 'standard',
+    proxyCountry: body.proxy_country ?? null,
+    cookies: (body.cookies ?? []).map((cookie) => JSON.stringify(sortKeys(cookie))).sort()
+  };
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+};
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Parsera } from './parsera.js';
+import { ParseraValidationError } from '../errors/parsera.js';
+
+const pages: Record<string, Record<string, string>[]> = {
+  'https://example.com/list': [
+    { title: 'A', next_page_url: '/list?page=2' },
+    { title: 'B', next_page_url: '/list?page=2' }
+  ],
+  'https://example.com/list?page=2': [
+    { title: 'B', next_page_url: '/list?page=3' },
+    { title: 'C', next_page_url: '/list?page=3' }
+  ],
+  'https://example.com/list?page=3': [{ title: 'D', next_page_url: '' }]
+};
+
+const mockApi = () => {
+  global.fetch = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+    const { url, attributes } = JSON.parse(init.body as string);
+    const withNext = attributes.some(({ name }: { name: string }) => name === 'next_page_url');
+    const data = (pages[url] ?? []).map(({ next_page_url, ...row }) =>
+      withNext ? { ...row, next_page_url } : row
+    );
+    return Promise.resolve({ ok: true, json: () => Promise.resolve({ data }) });
+  });
+};
+
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+describe('Parsera.crawl', () => {
+  const parsera = new Parsera({ apiKey: 'x'.repeat(32), rateLimit: { requestsPerSecond: 1000 } });
+
+  it('should follow extracted next page links and dedupe rows', async () => {
+    mockApi();
+    const complete = vi.fn();
+    parsera.on('crawl:complete', complete);
+
+    const result = await collect(
+      parsera.crawl({
+        url: 'https://example.com/list',
+        attributes: { title: 'Title' },
+        pagination: { type: 'nextLink' }
+      })
+    );
+
+    expect(result).toEqual([
+      { page: 1, url: 'https://example.com/list', data: [{ title: 'A' }, { title: 'B' }] },
+      { page: 2, url: 'https://example.com/list?page=2', data: [{ title: 'C' }] },
+      { page: 3, url: 'https://example.com/list?page=3', data: [{ title: 'D' }] }
+    ]);
+    expect(complete).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { url: 'https://example.com/list', pages: 3, items: 4 } })
+    );
+    parsera.removeAllListeners();
+  });
+
+  it('should generate pages from a template until a page is empty', async () => {
+    mockApi();
+    const result = await collect(
+      parsera.crawl({
+        url: 'https://example.com/list',
+        attributes: { title: 'Title' },
+        pagination: { type: 'template', template: 'https://example.com/list?page={page}' }
+      })
+    );
+
+    expect(result.map((page) => page.url)).toEqual([
+      'https://example.com/list',
+      'https://example.com/list?page=2',
+      'https://example.com/list?page=3'
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should stop at maxPages and maxItems', async () => {
+    mockApi();
+    const options = {
+      url: 'https://example.com/list',
+      attributes: { title: 'Title' },
+      pagination: { type: 'nextLink' as const }
+    };
+
+    expect(await collect(parsera.crawl({ ...options, maxPages: 1 }))).toHaveLength(1);
+
+    const limited = await collect(parsera.crawl({ ...options, maxItems: 3 }));
+    expect(limited.flatMap((page) => page.data)).toEqual([
+      { title: 'A' },
+      { title: 'B' },
+      { title: 'C' }
+    ]);
+  });
+
+  it('should reject templates without a page placeholder', async () => {
+    await expect(
+      collect(
+        parsera.crawl({
+          url: 'https://example.com/list',
+          attributes: { title: 'Title' },
+          pagination: { type: 'template', template: 'https://example.com/list' }
+        })
+      )
+    ).rejects.toThrow(ParseraValidationError);
+  });
+});
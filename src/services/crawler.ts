@@ -0,0 +1,167 @@
+import { ParseraNoDataError, ParseraValidationError } from '../errors/parsera.js';
+import type { ExtractOptions, ParseraAttribute } from './parsera.js';
+import { rowKey, RowKey } from './transforms.js';
+
+export interface TemplatePagination {
+  type: 'template';
+
+  /**
+   * URL of the following pages, with `{page}` replaced by the page number
+   * @example "https://example.com/products?page={page}"
+   */
+  template: string;
+
+  /**
+   * Page number used for the page after the start URL
+   * @default 2
+   */
+  start?: number;
+}
+
+export interface NextLinkPagination {
+  type: 'nextLink';
+
+  /**
+   * Name of the extra attribute holding the next page URL
+   * It is removed from the returned rows
+   * @default "next_page_url"
+   */
+  attribute?: string;
+
+  /**
+   * Description used to extract the next page URL
+   * @default "URL of the next page of results, empty if this is the last page"
+   */
+  description?: string;
+}
+
+export type CrawlPagination = TemplatePagination | NextLinkPagination;
+
+export interface CrawlOptions extends ExtractOptions {
+  /**
+   * How to find the following pages after `url`
+   */
+  pagination: CrawlPagination;
+
+  /**
+   * Maximum number of pages to extract, including the start URL
+   * @default 10
+   */
+  maxPages?: number;
+
+  /**
+   * Stop once this many rows have been yielded
+   * @default Infinity
+   */
+  maxItems?: number;
+
+  /**
+   * Attribute name(s) or function used to detect duplicate rows across pages
+   * @default the whole row
+   */
+  dedupeBy?: RowKey;
+}
+
+export interface CrawlPage {
+  /** Page number, starting at 1 for the start URL */
+  page: number;
+  /** URL of the page */
+  url: string;
+  /** New rows found on this page, after deduplication */
+  data: Record<string, string>[];
+}
+
+const DEFAULT_NEXT_ATTRIBUTE = 'next_page_url';
+const DEFAULT_NEXT_DESCRIPTION = 'URL of the next page of results, empty if this is the last page';
+
+const toAttributeList = (attributes: ExtractOptions['attributes'] = {}): ParseraAttribute[] =>
+  Array.isArray(attributes)
+    ? [...attributes]
+    : Object.entries(attributes).map(([name, description]) => ({ name, description }));
+
+const resolveUrl = (value: string, base: string): string | undefined => {
+  try {
+    const url = new URL(value, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Follows paginated listings, extracting every page with `extract`
+ * Stops at `maxPages` or `maxItems`, when a page has no new rows,
+ * or when no next page can be found
+ *
+ * @param extract - Function extracting a single page, usually `parsera.extract`
+ * @param options - Start URL, attributes and pagination strategy
+ * @returns An async generator yielding one entry per page
+ */
+export async function* crawl(
+  extract: (options: ExtractOptions) => Promise<Record<string, string>[]>,
+  { pagination, maxPages = 10, maxItems = Infinity, dedupeBy, ...options }: CrawlOptions
+): AsyncGenerator<CrawlPage> {
+  if (maxPages < 1 || maxItems < 1) {
+    throw new ParseraValidationError('maxPages and maxItems must be at least 1');
+  }
+  if (pagination.type === 'template' && !pagination.template.includes('{page}')) {
+    throw new ParseraValidationError('Pagination template must contain {page}');
+  }
+
+  const nextAttribute =
+    pagination.type === 'nextLink' ? (pagination.attribute ?? DEFAULT_NEXT_ATTRIBUTE) : undefined;
+  const attributes = toAttributeList(options.attributes);
+  if (pagination.type === 'nextLink' && nextAttribute) {
+    attributes.push({
+      name: nextAttribute,
+      description: pagination.description ?? DEFAULT_NEXT_DESCRIPTION
+    });
+  }
+
+  const seenRows = new Set<string>();
+  const visited = new Set<string>();
+  let itemCount = 0;
+  let url: string | undefined = options.url;
+
+  for (let page = 1; url && page <= maxPages; page++) {
+    visited.add(url);
+
+    let rows: Record<string, string>[];
+    try {
+      rows = await extract({ ...options, url, attributes });
+    } catch (error) {
+      // An empty page past the first one marks the end of the listing
+      if (page > 1 && error instanceof ParseraNoDataError) return;
+      throw error;
+    }
+
+    let nextUrl: string | undefined;
+    if (nextAttribute) {
+      const link = rows.map((row) => row[nextAttribute]?.trim()).find(Boolean);
+      nextUrl = link ? resolveUrl(link, url) : undefined;
+      rows = rows.map((row) => {
+        const copy = { ...row };
+        delete copy[nextAttribute];
+        return copy;
+      });
+    } else if (pagination.type === 'template') {
+      const number = (pagination.start ?? 2) + page - 1;
+      nextUrl = pagination.template.replace(/\{page\}/g, String(number));
+    }
+
+    const data: Record<string, string>[] = [];
+    for (const row of rows) {
+      const key = rowKey(row, dedupeBy);
+      if (seenRows.has(key)) continue;
+      seenRows.add(key);
+      data.push(row);
+      if (++itemCount >= maxItems) break;
+    }
+
+    if (!data.length) return;
+    yield { page, url, data };
+
+    if (itemCount >= maxItems) return;
+    url = nextUrl && !visited.has(nextUrl) ? nextUrl : undefined;
+  }
+}
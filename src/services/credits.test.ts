@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ParseraBudgetExceededError, ParseraValidationError } from '../errors/parsera.js';
+import { CreditTracker } from './credits.js';
+import { MockParsera } from './mock.js';
+
+describe('CreditTracker', () => {
+  it('should total credits per tag', () => {
+    const tracker = new CreditTracker();
+    tracker.record(1, ['a']);
+    tracker.record(10, ['a', 'b', 'b']);
+
+    expect(tracker.usage).toEqual({ total: 11, calls: 2, byTag: { a: 11, b: 10 } });
+  });
+
+  it('should reject reservations that could exceed the budget, including in-flight ones', () => {
+    const tracker = new CreditTracker(10);
+    const release = tracker.reserve(10);
+
+    expect(() => tracker.reserve(1)).toThrow(ParseraBudgetExceededError);
+    release();
+    expect(() => tracker.reserve(1)).not.toThrow();
+  });
+
+  it('should warn once when crossing the threshold', () => {
+    const tracker = new CreditTracker({ limit: 10, warnAt: 0.5 });
+
+    expect(tracker.record(4)).toBeUndefined();
+    expect(tracker.record(1)).toEqual({ used: 5, limit: 10, threshold: 5 });
+    expect(tracker.record(1)).toBeUndefined();
+  });
+
+  it('should validate budget options', () => {
+    expect(() => new CreditTracker(0)).toThrow(ParseraValidationError);
+    expect(() => new CreditTracker({ limit: 10, warnAt: 2 })).toThrow(ParseraValidationError);
+  });
+});
+
+describe('Parsera credit accounting', () => {
+  const attributes = { title: 'Extract the title' };
+
+  it('should charge the known cost of the mode, or the cost reported by the API', async () => {
+    const parsera = new MockParsera()
+      .reply({ data: [{ title: 'A' }] })
+      .reply({ data: [{ title: 'B' }] })
+      .reply({ body: { data: [{ title: 'C' }], credits_used: 3 } });
+
+    await parsera.extract({ url: 'https://example.com/a', attributes, tags: ['job'] });
+    await parsera.extract({
+      url: 'https://example.com/b',
+      attributes,
+      precisionMode: true,
+      tags: ['job', 'precise']
+    });
+    await parsera.extract({ url: 'https://example.com/c', attributes });
+
+    expect(parsera.usage).toEqual({ total: 14, calls: 3, byTag: { job: 11, precise: 10 } });
+  });
+
+  it('should not charge failed requests', async () => {
+    const parsera = new MockParsera({ retryOptions: { maxRetries: 0 } }).reply({ status: 500 });
+
+    await expect(parsera.extract({ url: 'https://example.com', attributes })).rejects.toThrow();
+    expect(parsera.usage.total).toBe(0);
+  });
+
+  it('should not charge calls answered by a middleware', async () => {
+    const parsera = new MockParsera({ budget: 10 }).reply({ data: [{ title: 'A' }] });
+    parsera.use(async (context, next) =>
+      'url' in context.body && context.body.url.endsWith('/cached')
+        ? { data: [{ title: 'Cached' }] }
+        : next(context)
+    );
+
+    await parsera.extract({ url: 'https://example.com/cached', attributes, precisionMode: true });
+    await parsera.extract({ url: 'https://example.com/live', attributes, precisionMode: true });
+
+    expect(parsera.usage).toMatchObject({ total: 10, calls: 1 });
+    expect(parsera.requests).toHaveLength(1);
+  });
+
+  it('should reject calls over budget without sending them and warn at the threshold', async () => {
+    const parsera = new MockParsera({ budget: { limit: 12, warnAt: 0.75 } }).reply({
+      data: [{ title: 'A' }],
+      times: Infinity
+    });
+    const onWarning = vi.fn();
+    parsera.on('budget:warning', onWarning);
+
+    await parsera.extract({ url: 'https://example.com', attributes, precisionMode: true });
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(onWarning.mock.calls[0][0].data).toEqual({ used: 10, limit: 12, threshold: 9 });
+
+    await expect(
+      parsera.extract({ url: 'https://example.com', attributes, precisionMode: true })
+    ).rejects.toThrow(ParseraBudgetExceededError);
+    expect(parsera.requests).toHaveLength(1);
+
+    await parsera.extract({ url: 'https://example.com', attributes });
+    expect(parsera.usage).toMatchObject({ total: 11, limit: 12, remaining: 1 });
+
+    parsera.resetUsage();
+    expect(parsera.usage).toMatchObject({ total: 0, remaining: 12 });
+  });
+});
@@ -0,0 +1,132 @@
+import { ParseraBudgetExceededError, ParseraValidationError } from '../errors/parsera.js';
+
+/**
+ * Credits charged per request when the API does not report usage
+ */
+export const CREDIT_COSTS = {
+  standard: 1,
+  precision: 10
+} as const;
+
+export interface ParseraBudgetOptions {
+  /**
+   * Maximum number of credits this client may consume
+   * Calls that could exceed it are rejected before being sent
+   */
+  limit: number;
+
+  /**
+   * Fraction of `limit` at which `budget:warning` is emitted, once
+   * @default 0.8
+   */
+  warnAt?: number;
+}
+
+export interface ParseraCreditUsage {
+  /** Credits consumed since the client was created or `resetUsage()` was called */
+  total: number;
+  /** Number of charged calls */
+  calls: number;
+  /** Credits consumed per tag; a call with several tags counts towards each of them */
+  byTag: Record<string, number>;
+  /** Budget limit, if any */
+  limit?: number;
+  /** Credits left before the limit, if any */
+  remaining?: number;
+}
+
+export interface ParseraBudgetWarning {
+  /** Credits consumed so far */
+  used: number;
+  /** Budget limit */
+  limit: number;
+  /** Credits consumed at which the warning fires */
+  threshold: number;
+}
+
+/**
+ * Counts credits consumed by a client and enforces its budget.
+ * Credits of in-flight calls are reserved up front, so concurrent calls
+ * cannot overrun the budget together.
+ */
+export class CreditTracker {
+  private readonly limit?: number;
+  private readonly threshold?: number;
+  private total = 0;
+  private calls = 0;
+  private reserved = 0;
+  private warned = false;
+  private readonly byTag = new Map<string, number>();
+
+  constructor(budget?: number | ParseraBudgetOptions) {
+    if (budget === undefined) return;
+    const { limit, warnAt = 0.8 } = typeof budget === 'number' ? { limit: budget } : budget;
+    if (!(limit > 0) || !(warnAt > 0 && warnAt <= 1)) {
+      throw new ParseraValidationError(
+        'Budget limit must be positive and warnAt must be between 0 and 1'
+      );
+    }
+    this.limit = limit;
+    this.threshold = limit * warnAt;
+  }
+
+  get usage(): ParseraCreditUsage {
+    return {
+      total: this.total,
+      calls: this.calls,
+      byTag: Object.fromEntries(this.byTag),
+      ...(this.limit !== undefined && {
+        limit: this.limit,
+        remaining: Math.max(0, this.limit - this.total)
+      })
+    };
+  }
+
+  /**
+   * Sets aside the expected cost of a call
+   * @throws {ParseraBudgetExceededError} When the call could exceed the budget
+   * @returns A function releasing the reservation
+   */
+  reserve(cost: number): () => void {
+    if (this.limit !== undefined && this.total + this.reserved + cost > this.limit) {
+      throw new ParseraBudgetExceededError(
+        `Credit budget exceeded: ${this.total} of ${this.limit} credits used, this call needs ${cost}`,
+        { used: this.total, limit: this.limit }
+      );
+    }
+    this.reserved += cost;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.reserved -= cost;
+    };
+  }
+
+  /**
+   * Adds the credits consumed by a call
+   * @returns The warning to emit when the call crossed the warning threshold
+   */
+  record(credits: number, tags: string[] = []): ParseraBudgetWarning | undefined {
+    this.total += credits;
+    this.calls++;
+    for (const tag of new Set(tags)) {
+      this.byTag.set(tag, (this.byTag.get(tag) ?? 0) + credits);
+    }
+
+    if (this.limit === undefined || this.threshold === undefined) return undefined;
+    if (this.warned || this.total < this.threshold) return undefined;
+    this.warned = true;
+    return { used: this.total, limit: this.limit, threshold: this.threshold };
+  }
+
+  /**
+   * Clears the totals; the budget applies again from zero
+   */
+  reset(): void {
+    this.total = 0;
+    this.calls = 0;
+    this.warned = false;
+    this.byTag.clear();
+  }
+}
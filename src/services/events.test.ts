@@ -0,0 +1,125 @@
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import type { ParseraResponse } from '../types/parsera.js';
+import { ParseraEventEmitter } from './events.js';
+import { MockParsera } from './mock.js';
+import type { QualityReport } from './quality.js';
+
+describe('ParseraEventEmitter', () => {
+  it('should keep options per handler', async () => {
+    const emitter = new ParseraEventEmitter();
+    const failing = vi.fn().mockRejectedValue(new Error('handler failed'));
+    const other = vi.fn();
+    emitter.on('extract:start', failing, { catchErrors: false });
+    emitter.on('extract:start', other, { async: true });
+
+    await expect(emitter.emit('extract:start')).rejects.toThrow('handler failed');
+    expect(other).toHaveBeenCalledTimes(1);
+  });
+
+  it('should match namespace and catch-all patterns', async () => {
+    const emitter = new ParseraEventEmitter();
+    const namespace = vi.fn();
+    const all = vi.fn();
+    const nested = vi.fn();
+    emitter.on('request:*', namespace);
+    emitter.on('*', all);
+    emitter.on('my:custom:*', nested);
+
+    await emitter.emit('request:retry');
+    await emitter.emit('rateLimit');
+    await emitter.emit('my:custom:event');
+
+    expect(namespace.mock.calls.map(([event]) => event.type)).toEqual(['request:retry']);
+    expect(all).toHaveBeenCalledTimes(3);
+    expect(nested).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove handlers after one call or when their signal aborts', async () => {
+    const emitter = new ParseraEventEmitter();
+    const controller = new AbortController();
+    const once = vi.fn();
+    const aborted = vi.fn();
+    emitter.on('cache:hit', once, { once: true });
+    emitter.on('cache:hit', aborted, { signal: controller.signal });
+
+    await emitter.emit('cache:hit');
+    controller.abort();
+    await emitter.emit('cache:hit');
+
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(aborted).toHaveBeenCalledTimes(1);
+  });
+
+  it('should iterate over events, buffering unread ones until aborted', async () => {
+    const emitter = new ParseraEventEmitter();
+    const controller = new AbortController();
+    const iterator = emitter.events('batch:*', { signal: controller.signal });
+
+    await emitter.emit('batch:progress', { completed: 1 });
+    await emitter.emit('batch:complete', { completed: 1 });
+    const pending = iterator.next();
+    await emitter.emit('other');
+
+    expect((await iterator.next()).value).toMatchObject({ type: 'batch:complete' });
+    expect((await pending).value).toMatchObject({ type: 'batch:progress' });
+    const next = iterator.next();
+    controller.abort();
+    expect(await next).toEqual({ value: undefined, done: true });
+  });
+});
+
+describe('Parsera events', () => {
+  const attributes = { title: 'Extract the title' };
+
+  it('should type payloads of declared events', async () => {
+    const parsera = new MockParsera().reply({ data: [{ title: 'Test' }] });
+    const completed = vi.fn();
+    parsera.on('extract:complete', (event) => {
+      expectTypeOf(event.data).toEqualTypeOf<
+        (ParseraResponse & { quality?: QualityReport }) | undefined
+      >();
+      completed(event.data?.data);
+    });
+    parsera.on('request:*', (event) => {
+      if (event.type === 'request:end') {
+        expectTypeOf(event.data?.duration).toEqualTypeOf<number | undefined>();
+      }
+    });
+
+    await parsera.extract({ url: 'https://example.com', attributes });
+    expect(completed).toHaveBeenCalledWith([{ title: 'Test' }]);
+  });
+
+  it('should call once handlers a single time', async () => {
+    const parsera = new MockParsera().reply({ data: [{ title: 'Test' }], times: 2 });
+    const handler = vi.fn();
+    parsera.once('extract:complete', handler);
+
+    await parsera.extract({ url: 'https://example.com', attributes });
+    await parsera.extract({ url: 'https://example.com', attributes });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stream request events through the async iterator', async () => {
+    const parsera = new MockParsera().reply({ data: [{ title: 'Test' }] });
+    const types: string[] = [];
+
+    const reading = (async () => {
+      for await (const event of parsera.events('*')) {
+        types.push(event.type);
+        if (event.type === 'extract:complete') break;
+      }
+    })();
+    await parsera.extract({ url: 'https://example.com', attributes });
+    await reading;
+
+    expect(types).toEqual([
+      'extract:start',
+      'request:start',
+      'request:end',
+      'credits:used',
+      'extract:complete'
+    ]);
+  });
+});
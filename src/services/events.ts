@@ -0,0 +1,285 @@
+import type { ParseraResponse } from '../types/parsera.js';
+import type { ParseraBudgetWarning } from './credits.js';
+import type { CrawlPage } from './crawler.js';
+import type { MonitorChangeEvent, MonitorRowEvent } from './monitor.js';
+import type { QualityReport } from './quality.js';
+import type { QueueProgress } from './queue.js';
+import type {
+  ExtractMarkdownOptions,
+  ExtractOptions,
+  ParseOptions,
+  ParseraBatchProgress,
+  ParseraMarkdownResult,
+  ParseraRetryContext
+} from './parsera.js';
+
+/**
+ * Payload (`event.data`) of every event emitted by the client
+ */
+export interface ParseraEventMap {
+  'request:start': { method: string; url: string };
+  'request:end': { method: string; url: string; status?: number; duration: number };
+  'request:retry': ParseraRetryContext;
+  'request:error': undefined;
+  'extract:start': Pick<
+    ExtractOptions,
+    'url' | 'attributes' | 'proxyCountry' | 'cookies' | 'precisionMode' | 'signal'
+  >;
+  'extract:complete': ParseraResponse & { quality?: QualityReport };
+  'extract:error': undefined;
+  'parse:start': Pick<ParseOptions, 'content' | 'attributes' | 'precisionMode' | 'signal'>;
+  'parse:complete': ParseraResponse;
+  'parse:error': undefined;
+  'markdown:start': Pick<ExtractMarkdownOptions, 'url' | 'proxyCountry' | 'cookies' | 'signal'>;
+  'markdown:complete': ParseraMarkdownResult;
+  'markdown:error': undefined;
+  rateLimit: { retryCount: number; retryAfter?: number };
+  timeout: undefined;
+  'batch:progress': ParseraBatchProgress;
+  'batch:complete': ParseraBatchProgress;
+  'crawl:page': CrawlPage;
+  'crawl:complete': { url: string; pages: number; items: number };
+  'monitor:added': MonitorRowEvent;
+  'monitor:removed': MonitorRowEvent;
+  'monitor:changed': MonitorChangeEvent;
+  'monitor:check': {
+    monitorId: string;
+    initial: boolean;
+    added: number;
+    removed: number;
+    changed: number;
+  };
+  'monitor:error': { monitorId: string };
+  'cache:hit': { key: string; url: string };
+  'cache:miss': { key: string; url: string };
+  'credits:used': { operation: string; credits: number; total: number; tags?: string[] };
+  'budget:warning': ParseraBudgetWarning;
+  'queue:progress': QueueProgress & { path: string; id: string };
+  'queue:complete': QueueProgress & { path: string };
+  'quality:escalation': { url: string; report: QualityReport; credits: number };
+}
+
+export type ParseraEventName = keyof ParseraEventMap;
+
+/**
+ * Any declared event name, or a custom one
+ */
+export type ParseraEventType = ParseraEventName | (string & Record<never, never>);
+
+type Namespace<K extends string> = K extends `${infer N}:${string}` ? N : never;
+
+/**
+ * Listens to every event (`'*'`) or to every event of a namespace (`'request:*'`)
+ */
+export type ParseraEventPattern = '*' | `${Namespace<ParseraEventName>}:*`;
+
+/**
+ * Names of the declared events matched by an event name or pattern
+ */
+export type ParseraEventsMatching<P extends string> = P extends '*'
+  ? ParseraEventName
+  : P extends `${infer N}:*`
+    ? Extract<ParseraEventName, `${N}:${string}`>
+    : Extract<ParseraEventName, P>;
+
+export interface ParseraEvent<T = unknown, K extends string = ParseraEventType> {
+  type: K;
+  timestamp: number;
+  data?: T;
+  error?: Error;
+  retryCount?: number;
+}
+
+/**
+ * Event of a declared type, narrowed by `type` when several types are matched
+ */
+export type ParseraTypedEvent<K extends ParseraEventName> = K extends ParseraEventName
+  ? ParseraEvent<ParseraEventMap[K], K>
+  : never;
+
+export type ParseraEventHandler<T = unknown> = (event: ParseraEvent<T>) => void | Promise<void>;
+
+export type ParseraTypedEventHandler<P extends ParseraEventName | ParseraEventPattern> = (
+  event: ParseraTypedEvent<ParseraEventsMatching<P>>
+) => void | Promise<void>;
+
+export interface ParseraEventOptions {
+  /**
+   * Whether to handle the event asynchronously
+   * When true, event handlers won't block the main execution
+   * @default false
+   */
+  async?: boolean;
+
+  /**
+   * Whether to catch errors in event handlers
+   * When true, errors in handlers won't affect the main execution
+   * @default true
+   */
+  catchErrors?: boolean;
+
+  /**
+   * Remove the handler after its first call
+   * @default false
+   */
+  once?: boolean;
+
+  /**
+   * Removes the handler when aborted
+   */
+  signal?: AbortSignal;
+}
+
+interface Listener {
+  handler: ParseraEventHandler<unknown>;
+  async: boolean;
+  catchErrors: boolean;
+  once: boolean;
+}
+
+/**
+ * Event names and patterns a listener may be registered under for an event
+ * e.g. "request:retry" is matched by "request:retry", "request:*" and "*"
+ */
+const patternsFor = (eventType: string): string[] => {
+  const patterns = [eventType];
+  for (
+    let index = eventType.indexOf(':');
+    index !== -1;
+    index = eventType.indexOf(':', index + 1)
+  ) {
+    patterns.push(`${eventType.slice(0, index)}:*`);
+  }
+  patterns.push('*');
+  return patterns;
+};
+
+/**
+ * Event registry backing the client's `on`, `once`, `off` and `events` methods
+ */
+export class ParseraEventEmitter {
+  private readonly listeners = new Map<string, Map<ParseraEventHandler<unknown>, Listener>>();
+
+  /**
+   * Registers a handler for an event name or pattern; registering it again replaces its options
+   */
+  on(eventType: string, handler: ParseraEventHandler<unknown>, options: ParseraEventOptions = {}) {
+    if (options.signal?.aborted) return;
+    if (!this.listeners.has(eventType)) {
+      this.listeners.set(eventType, new Map());
+    }
+    this.listeners.get(eventType)?.set(handler, {
+      handler,
+      async: options.async ?? false,
+      catchErrors: options.catchErrors ?? true,
+      once: options.once ?? false
+    });
+    options.signal?.addEventListener('abort', () => this.off(eventType, handler), { once: true });
+  }
+
+  off(eventType: string, handler: ParseraEventHandler<unknown>): void {
+    const listeners = this.listeners.get(eventType);
+    listeners?.delete(handler);
+    if (listeners?.size === 0) this.listeners.delete(eventType);
+  }
+
+  removeAllListeners(eventType?: string): void {
+    if (eventType) {
+      this.listeners.delete(eventType);
+    } else {
+      this.listeners.clear();
+    }
+  }
+
+  async emit(eventType: string, data?: unknown, error?: Error, retryCount?: number): Promise<void> {
+    const matched: { pattern: string; listener: Listener }[] = [];
+    for (const pattern of patternsFor(eventType)) {
+      for (const listener of this.listeners.get(pattern)?.values() ?? []) {
+        matched.push({ pattern, listener });
+      }
+    }
+    if (!matched.length) return;
+
+    const event: ParseraEvent = {
+      type: eventType,
+      timestamp: Date.now(),
+      ...(data !== undefined && { data }),
+      ...(error && { error }),
+      ...(retryCount !== undefined && { retryCount })
+    };
+
+    const handleEvent = async ({ handler, catchErrors }: Listener) => {
+      try {
+        await handler(event);
+      } catch (error) {
+        if (!catchErrors) {
+          throw error;
+        }
+      }
+    };
+
+    const blocking: Promise<void>[] = [];
+    for (const { pattern, listener } of matched) {
+      if (listener.once) this.off(pattern, listener.handler);
+      if (listener.async) {
+        handleEvent(listener).catch(() => {});
+      } else {
+        blocking.push(handleEvent(listener));
+      }
+    }
+    await Promise.all(blocking);
+  }
+
+  /**
+   * Async iterator over the events matching a name or pattern, buffered until read
+   * Ends when `signal` aborts or the loop exits
+   */
+  events(
+    eventType: string,
+    { signal }: { signal?: AbortSignal } = {}
+  ): AsyncIterableIterator<ParseraEvent> {
+    const buffer: ParseraEvent[] = [];
+    let waiting: ((result: IteratorResult<ParseraEvent>) => void) | undefined;
+    let done = false;
+
+    const handler: ParseraEventHandler<unknown> = (event) => {
+      if (waiting) {
+        waiting({ value: event, done: false });
+        waiting = undefined;
+      } else {
+        buffer.push(event);
+      }
+    };
+    const finish = () => {
+      if (done) return;
+      done = true;
+      this.off(eventType, handler);
+      signal?.removeEventListener('abort', finish);
+      waiting?.({ value: undefined, done: true });
+      waiting = undefined;
+    };
+
+    this.on(eventType, handler);
+    if (signal?.aborted) finish();
+    signal?.addEventListener('abort', finish, { once: true });
+
+    return {
+      next: () => {
+        const event = buffer.shift();
+        if (event) return Promise.resolve({ value: event, done: false });
+        if (done) return Promise.resolve({ value: undefined, done: true });
+        return new Promise((resolve) => {
+          waiting = resolve;
+        });
+      },
+      return: () => {
+        finish();
+        buffer.length = 0;
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      }
+    };
+  }
+}
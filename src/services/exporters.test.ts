@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Writable } from 'node:stream';
+import { exportResults, writeCsv, writeJson, writeNdjson } from './exporters.js';
+
+const collect = () => {
+  const chunks: string[] = [];
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk.toString());
+      callback();
+    }
+  });
+  return { stream, text: () => chunks.join('') };
+};
+
+const rows = [
+  { price: '$1,299.00', title: 'Widget "Pro"' },
+  { title: 'Gadget', price: '$10' }
+];
+
+describe('exporters', () => {
+  it('should write CSV with columns in attribute order', async () => {
+    const { stream, text } = collect();
+    const count = await writeCsv(rows, stream, {
+      attributes: [
+        { name: 'title', description: 'Title' },
+        { name: 'price', description: 'Price' }
+      ]
+    });
+
+    expect(count).toBe(2);
+    expect(text()).toBe('title,price\n"Widget ""Pro""","$1,299.00"\nGadget,$10\n');
+  });
+
+  it('should add url and timestamp columns from async batches', async () => {
+    const { stream, text } = collect();
+    async function* results() {
+      yield { data: [{ title: 'A' }], url: 'https://example.com/a', extractedAt: 0 };
+      yield {
+        index: 1,
+        input: { url: 'https://example.com/b' },
+        success: false,
+        error: new Error('failed')
+      };
+      yield {
+        index: 2,
+        input: { url: 'https://example.com/c' },
+        success: true,
+        data: [{ title: 'C' }]
+      };
+    }
+
+    await writeCsv(results(), stream, {
+      attributes: ['title'],
+      includeUrl: true,
+      includeTimestamp: true
+    });
+
+    const lines = text().trim().split('\n');
+    expect(lines[0]).toBe('source_url,extracted_at,title');
+    expect(lines[1]).toBe('https://example.com/a,1970-01-01T00:00:00.000Z,A');
+    expect(lines[2]).toMatch(/^https:\/\/example\.com\/c,\d{4}-.+Z,C$/);
+    expect(lines).toHaveLength(3);
+  });
+
+  it('should keep row attributes apart from the source URL column', async () => {
+    const batch = [{ url: 'https://example.com/listing', data: [{ name: 'A', url: '/p/1' }] }];
+
+    const { stream, text } = collect();
+    await writeCsv(batch, stream, { includeUrl: true });
+    expect(text()).toBe('source_url,name,url\nhttps://example.com/listing,A,/p/1\n');
+
+    await expect(
+      writeCsv(batch, collect().stream, { includeUrl: true, urlColumn: 'url' })
+    ).rejects.toThrow('Rows have a "url" attribute');
+  });
+
+  it('should write a header for empty input when attributes are known', async () => {
+    const { stream, text } = collect();
+    await writeCsv([], stream, { attributes: { title: 'Title' } });
+    expect(text()).toBe('title\n');
+  });
+
+  it('should write NDJSON', async () => {
+    const { stream, text } = collect();
+    await writeNdjson([rows], stream);
+    expect(
+      text()
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line))
+    ).toEqual(rows);
+  });
+
+  it('should write a JSON array', async () => {
+    const { stream, text } = collect();
+    await writeJson(rows, stream);
+    expect(JSON.parse(text())).toEqual(rows);
+
+    const empty = collect();
+    await writeJson([], empty.stream);
+    expect(JSON.parse(empty.text())).toEqual([]);
+  });
+
+  describe('to files', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'parsera-export-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write to a file path and close it', async () => {
+      const path = join(directory, 'out.ndjson');
+      await exportResults(rows, path, { format: 'ndjson' });
+      expect(await readFile(path, 'utf8')).toBe(
+        rows.map((row) => JSON.stringify(row)).join('\n') + '\n'
+      );
+    });
+
+    it('should close the file when the input fails', async () => {
+      const path = join(directory, 'out.ndjson');
+      async function* failing() {
+        yield rows;
+        throw new Error('source failed');
+      }
+
+      await expect(writeNdjson(failing(), path)).rejects.toThrow('source failed');
+      expect(await readFile(path, 'utf8')).toBe(
+        rows.map((row) => JSON.stringify(row)).join('\n') + '\n'
+      );
+    });
+
+    it('should reject when the file cannot be opened', async () => {
+      await expect(writeCsv(rows, join(directory, 'missing', 'out.csv'))).rejects.toThrow();
+    });
+  });
+});
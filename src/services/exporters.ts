@@ -0,0 +1,268 @@
+import { createWriteStream } from 'node:fs';
+import { once } from 'node:events';
+import { Writable } from 'node:stream';
+import { ParseraValidationError } from '../errors/parsera.js';
+import { collectColumns, escapeCsvField, toCsvLine } from '../utils/csv.js';
+import type { ParseraAttribute } from './parsera.js';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'json';
+
+export type ExportRow = Record<string, unknown>;
+
+/**
+ * Rows extracted from a single page, with optional provenance
+ */
+export interface ExportBatch {
+  /** Extracted rows */
+  data: ExportRow[];
+  /** URL the rows were extracted from */
+  url?: string;
+  /** Time of the extraction; defaults to the time the batch is written */
+  extractedAt?: Date | number;
+}
+
+/**
+ * Anything the exporters accept: a plain list of rows, or an (async) iterable of
+ * row lists, batches or `extractMany` results (failed results are skipped)
+ */
+export type ExportInput =
+  | ExportRow[]
+  | Iterable<ExportRow[] | ExportBatch | BatchResultLike>
+  | AsyncIterable<ExportRow[] | ExportBatch | BatchResultLike>;
+
+interface BatchResultLike {
+  input: { url: string };
+  success: boolean;
+  data?: ExportRow[];
+}
+
+export interface ExportOptions {
+  /**
+   * Requested attributes, used to derive a stable column order for CSV
+   * Keys of the first row that are not listed are appended after them;
+   * keys appearing only in later rows are not written
+   */
+  attributes?: (ParseraAttribute | string)[] | Record<string, string>;
+
+  /**
+   * Add the source URL to every row
+   * @default false
+   */
+  includeUrl?: boolean;
+
+  /**
+   * Add the extraction timestamp (ISO 8601) to every row
+   * @default false
+   */
+  includeTimestamp?: boolean;
+
+  /**
+   * Name of the source URL column; rows with an attribute of the same name are rejected
+   * @default "source_url"
+   */
+  urlColumn?: string;
+
+  /**
+   * Name of the timestamp column; rows with an attribute of the same name are rejected
+   * @default "extracted_at"
+   */
+  timestampColumn?: string;
+
+  /**
+   * Whether to end the destination stream once everything is written
+   * @default true for file paths, false for streams
+   */
+  end?: boolean;
+}
+
+const isBatchResult = (item: unknown): item is BatchResultLike =>
+  typeof item === 'object' && item !== null && 'input' in item && 'success' in item;
+
+const isRowList = (input: ExportInput): input is ExportRow[] =>
+  Array.isArray(input) && input.every((item) => !Array.isArray(item) && !isBatchLike(item));
+
+const isBatchLike = (item: unknown): boolean =>
+  isBatchResult(item) ||
+  (typeof item === 'object' && item !== null && Array.isArray((item as ExportBatch).data));
+
+async function* toBatches(input: ExportInput): AsyncGenerator<ExportBatch> {
+  if (isRowList(input)) {
+    yield { data: input };
+    return;
+  }
+  for await (const item of input as AsyncIterable<ExportRow[] | ExportBatch | BatchResultLike>) {
+    if (Array.isArray(item)) {
+      yield { data: item };
+    } else if (isBatchResult(item)) {
+      if (item.success && item.data) yield { data: item.data, url: item.input.url };
+    } else {
+      yield item;
+    }
+  }
+}
+
+const attributeNames = (attributes: ExportOptions['attributes']): string[] | undefined => {
+  if (!attributes) return undefined;
+  if (!Array.isArray(attributes)) return Object.keys(attributes);
+  return attributes.map((attribute) =>
+    typeof attribute === 'string' ? attribute : attribute.name
+  );
+};
+
+async function* toRows(
+  input: ExportInput,
+  {
+    includeUrl,
+    includeTimestamp,
+    urlColumn = 'source_url',
+    timestampColumn = 'extracted_at'
+  }: ExportOptions
+): AsyncGenerator<ExportRow> {
+  for await (const batch of toBatches(input)) {
+    const extractedAt = new Date(batch.extractedAt ?? Date.now()).toISOString();
+    for (const row of batch.data) {
+      const collision = [includeUrl && urlColumn, includeTimestamp && timestampColumn].find(
+        (column) => column && column in row
+      );
+      if (collision) {
+        throw new ParseraValidationError(
+          `Rows have a "${collision}" attribute, which would be overwritten by the provenance column; choose another column name`
+        );
+      }
+      yield {
+        ...(includeUrl && { [urlColumn]: batch.url ?? '' }),
+        ...(includeTimestamp && { [timestampColumn]: extractedAt }),
+        ...row
+      };
+    }
+  }
+}
+
+const write = async (stream: Writable, chunk: string): Promise<void> => {
+  if (!stream.write(chunk)) {
+    await once(stream, 'drain');
+  }
+};
+
+const withDestination = async (
+  destination: Writable | string,
+  end: boolean | undefined,
+  fn: (stream: Writable) => Promise<number>
+): Promise<number> => {
+  let stream: Writable;
+  if (typeof destination === 'string') {
+    stream = createWriteStream(destination);
+    await once(stream, 'open');
+  } else {
+    stream = destination;
+  }
+  try {
+    return await fn(stream);
+  } finally {
+    // Files opened here are closed even when the input fails part way through
+    if (end ?? typeof destination === 'string') {
+      stream.end();
+      await once(stream, 'finish');
+    }
+  }
+};
+
+/**
+ * Writes rows as CSV (RFC 4180) with a header line
+ * @param input - Rows or an (async) iterable of results
+ * @param destination - Writable stream or file path
+ * @param options - Column and provenance options
+ * @returns Number of rows written
+ */
+export const writeCsv = (
+  input: ExportInput,
+  destination: Writable | string,
+  options: ExportOptions = {}
+): Promise<number> =>
+  withDestination(destination, options.end, async (stream) => {
+    const { urlColumn = 'source_url', timestampColumn = 'extracted_at' } = options;
+    const leading = [
+      ...(options.includeUrl ? [urlColumn] : []),
+      ...(options.includeTimestamp ? [timestampColumn] : [])
+    ];
+    let columns = attributeNames(options.attributes) ?? [];
+    let headerWritten = false;
+    let count = 0;
+
+    for await (const row of toRows(input, options)) {
+      if (!headerWritten) {
+        columns = Array.from(new Set([...leading, ...columns, ...collectColumns([row])]));
+        await write(stream, `${columns.map(escapeCsvField).join(',')}\n`);
+        headerWritten = true;
+      }
+      await write(stream, `${toCsvLine(row, columns)}\n`);
+      count++;
+    }
+
+    if (!headerWritten && columns.length) {
+      await write(stream, `${[...leading, ...columns].map(escapeCsvField).join(',')}\n`);
+    }
+    return count;
+  });
+
+/**
+ * Writes rows as newline-delimited JSON, one object per line
+ * @param input - Rows or an (async) iterable of results
+ * @param destination - Writable stream or file path
+ * @param options - Provenance options
+ * @returns Number of rows written
+ */
+export const writeNdjson = (
+  input: ExportInput,
+  destination: Writable | string,
+  options: ExportOptions = {}
+): Promise<number> =>
+  withDestination(destination, options.end, async (stream) => {
+    let count = 0;
+    for await (const row of toRows(input, options)) {
+      await write(stream, `${JSON.stringify(row)}\n`);
+      count++;
+    }
+    return count;
+  });
+
+/**
+ * Writes rows as a single JSON array, streamed row by row
+ * @param input - Rows or an (async) iterable of results
+ * @param destination - Writable stream or file path
+ * @param options - Provenance options
+ * @returns Number of rows written
+ */
+export const writeJson = (
+  input: ExportInput,
+  destination: Writable | string,
+  options: ExportOptions = {}
+): Promise<number> =>
+  withDestination(destination, options.end, async (stream) => {
+    let count = 0;
+    await write(stream, '[');
+    for await (const row of toRows(input, options)) {
+      await write(stream, `${count ? ',' : ''}\n  ${JSON.stringify(row)}`);
+      count++;
+    }
+    await write(stream, count ? '\n]\n' : ']\n');
+    return count;
+  });
+
+const writers: Record<ExportFormat, typeof writeCsv> = {
+  csv: writeCsv,
+  ndjson: writeNdjson,
+  json: writeJson
+};
+
+/**
+ * Writes rows in the given format
+ * @see writeCsv
+ * @see writeNdjson
+ * @see writeJson
+ */
+export const exportResults = (
+  input: ExportInput,
+  destination: Writable | string,
+  { format, ...options }: ExportOptions & { format: ExportFormat }
+): Promise<number> => writers[format](input, destination, options);
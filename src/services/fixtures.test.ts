@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ParseraValidationError } from '../errors/parsera.js';
+import { createFixtureFetch } from './fixtures.js';
+import { Parsera } from './parsera.js';
+
+describe('createFixtureFetch', () => {
+  const apiKey = 'k'.repeat(32);
+  const options = {
+    url: 'https://example.com',
+    attributes: { title: 'Extract the title' },
+    cookies: [{ name: 'session', value: 'secret-session', sameSite: 'Lax' as const }]
+  };
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'parsera-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const realFetch = () =>
+    vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ data: [{ title: 'Recorded' }] }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    );
+
+  it('should record exchanges with secrets redacted', async () => {
+    const fetch = realFetch();
+    const parsera = new Parsera({
+      apiKey,
+      fetch: createFixtureFetch({ directory, mode: 'record', fetch })
+    });
+
+    await expect(parsera.extract(options)).resolves.toEqual([{ title: 'Recorded' }]);
+
+    const [file] = await readdir(directory);
+    expect(file).toMatch(/^v1_extract-[0-9a-f]{16}\.json$/);
+    const contents = await readFile(join(directory, file), 'utf8');
+    expect(contents).not.toContain(apiKey);
+    expect(contents).not.toContain('secret-session');
+    expect(JSON.parse(contents)).toMatchObject({
+      request: {
+        method: 'POST',
+        path: '/v1/extract',
+        headers: { 'x-api-key': '[REDACTED]' },
+        body: { cookies: [{ name: 'session', value: '[REDACTED]' }] }
+      },
+      response: { status: 200, body: { data: [{ title: 'Recorded' }] } }
+    });
+  });
+
+  it('should replay recorded exchanges without the network, whatever the secrets', async () => {
+    await new Parsera({
+      apiKey,
+      fetch: createFixtureFetch({ directory, mode: 'record', fetch: realFetch() })
+    }).extract(options);
+
+    const fetch = vi.fn();
+    const replay = new Parsera({
+      apiKey: 'r'.repeat(32),
+      fetch: createFixtureFetch({ directory, fetch })
+    });
+    const rotated = { ...options, cookies: [{ ...options.cookies[0], value: 'other-session' }] };
+
+    await expect(replay.extract(rotated)).resolves.toEqual([{ title: 'Recorded' }]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should fail when replaying an unrecorded request', async () => {
+    const parsera = new Parsera({ apiKey, fetch: createFixtureFetch({ directory }) });
+
+    await expect(parsera.extract(options)).rejects.toThrow(ParseraValidationError);
+  });
+
+  it('should record only missing fixtures in auto mode', async () => {
+    const fetch = realFetch();
+    const parsera = new Parsera({
+      apiKey,
+      fetch: createFixtureFetch({ directory, mode: 'auto', fetch })
+    });
+
+    await parsera.extract(options);
+    await parsera.extract(options);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,155 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ParseraValidationError } from '../errors/parsera.js';
+import { globalFetch, ParseraFetch } from './transport.js';
+
+export type FixtureMode = 'record' | 'replay' | 'auto';
+
+export interface FixtureFetchOptions {
+  /**
+   * Directory the fixture files are read from and written to
+   */
+  directory: string;
+
+  /**
+   * - `record`: send every request and save the exchange
+   * - `replay`: answer from saved exchanges only, never touching the network
+   * - `auto`: replay when a fixture exists, record otherwise
+   * @default "replay"
+   */
+  mode?: FixtureMode;
+
+  /**
+   * Fetch implementation used to record real exchanges
+   * @default globalThis.fetch
+   */
+  fetch?: ParseraFetch;
+}
+
+/**
+ * A recorded request/response pair, as saved on disk
+ */
+export interface ParseraFixture {
+  request: {
+    method: string;
+    path: string;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+  recordedAt: string;
+}
+
+const REDACTED = '[REDACTED]';
+const SECRET_HEADERS = ['x-api-key', 'authorization', 'cookie', 'set-cookie'];
+
+const redactHeaders = (headers: Headers): Record<string, string> =>
+  Object.fromEntries(
+    Array.from(headers.entries()).map(([name, value]) => [
+      name,
+      SECRET_HEADERS.includes(name) ? REDACTED : value
+    ])
+  );
+
+const redactBody = (body: unknown): unknown => {
+  if (typeof body !== 'object' || body === null || !('cookies' in body)) return body;
+  const { cookies } = body as { cookies?: Record<string, string>[] };
+  if (!Array.isArray(cookies)) return body;
+  return {
+    ...body,
+    cookies: cookies.map((cookie) => ('value' in cookie ? { ...cookie, value: REDACTED } : cookie))
+  };
+};
+
+const parseBody = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const fixtureName = (path: string, body: unknown): string => {
+  const hash = createHash('sha256')
+    .update(JSON.stringify({ path, body }))
+    .digest('hex')
+    .slice(0, 16);
+  const slug = path.replace(/^\/+/, '').replace(/[^\w-]+/g, '_') || 'root';
+  return `${slug}-${hash}.json`;
+};
+
+const readFixture = async (file: string): Promise<ParseraFixture | undefined> => {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as ParseraFixture;
+  } catch {
+    return undefined;
+  }
+};
+
+const toResponse = ({ response }: ParseraFixture): Response =>
+  new Response(typeof response.body === 'string' ? response.body : JSON.stringify(response.body), {
+    status: response.status,
+    headers: response.headers
+  });
+
+/**
+ * Creates a fetch implementation that records API exchanges to fixture files and replays them.
+ * The API key, authorization and cookie headers, and cookie values in request bodies, are redacted
+ * before saving; fixtures are matched on the endpoint path and the redacted body.
+ *
+ * @example
+ * ```typescript
+ * const parsera = new Parsera({
+ *   apiKey: process.env.PARSERA_API_KEY ?? 'x'.repeat(32),
+ *   fetch: createFixtureFetch({
+ *     directory: 'test/fixtures',
+ *     mode: process.env.RECORD ? 'record' : 'replay'
+ *   })
+ * });
+ * ```
+ */
+export const createFixtureFetch = ({
+  directory,
+  mode = 'replay',
+  fetch = globalFetch
+}: FixtureFetchOptions): ParseraFetch => {
+  return async (input, init = {}) => {
+    const path = new URL(input).pathname;
+    const body = redactBody(parseBody(String(init.body ?? '')));
+    const file = join(directory, fixtureName(path, body));
+
+    if (mode !== 'record') {
+      const fixture = await readFixture(file);
+      if (fixture) return toResponse(fixture);
+      if (mode === 'replay') {
+        throw new ParseraValidationError(
+          `No fixture recorded for ${init.method ?? 'GET'} ${path} (expected ${file})`
+        );
+      }
+    }
+
+    const response = await fetch(input, init);
+    const fixture: ParseraFixture = {
+      request: {
+        method: init.method ?? 'GET',
+        path,
+        headers: redactHeaders(new Headers(init.headers)),
+        body
+      },
+      response: {
+        status: response.status,
+        headers: redactHeaders(response.headers),
+        body: parseBody(await response.text())
+      },
+      recordedAt: new Date().toISOString()
+    };
+    await mkdir(directory, { recursive: true });
+    await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+    return toResponse(fixture);
+  };
+};
@@ -0,0 +1,85 @@
+import type {
+  ParseraMarkdownRequestBody,
+  ParseraMarkdownResponse,
+  ParseraParseRequestBody,
+  ParseraRequestBody,
+  ParseraResponse
+} from '../types/parsera.js';
+
+export type ParseraRequestPayload =
+  | ParseraRequestBody
+  | ParseraParseRequestBody
+  | ParseraMarkdownRequestBody;
+
+export type ParseraResponsePayload = ParseraResponse | ParseraMarkdownResponse;
+
+export interface ParseraRequestContext {
+  /**
+   * API endpoint path, e.g. "/extract", "/parse" or "/extract_markdown"
+   */
+  path: string;
+
+  /**
+   * Base URL the request is sent to; can be rewritten per request
+   */
+  baseUrl: string;
+
+  /**
+   * Outgoing HTTP headers, including the API key
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Outgoing request body; narrow it with `path`
+   */
+  body: ParseraRequestPayload;
+
+  /**
+   * AbortSignal of the calling method, if any
+   */
+  signal?: AbortSignal;
+}
+
+export type ParseraNext = (context?: ParseraRequestContext) => Promise<ParseraResponsePayload>;
+
+/**
+ * Function wrapping every API request.
+ * Modify `context` before calling `next()` to change the outgoing request,
+ * modify the value returned by `next()` to post-process the response,
+ * or return without calling `next()` to short-circuit the request.
+ */
+export type ParseraMiddleware = (
+  context: ParseraRequestContext,
+  next: ParseraNext
+) => Promise<ParseraResponsePayload>;
+
+/**
+ * Composes middlewares around a final handler, first registered runs outermost
+ * @param middlewares - Middlewares in registration order
+ * @param handler - Sends the request once every middleware called `next()`
+ * @returns A function running the whole chain for a request context
+ */
+export const composeMiddleware = (
+  middlewares: readonly ParseraMiddleware[],
+  handler: (context: ParseraRequestContext) => Promise<ParseraResponsePayload>
+) => {
+  return (context: ParseraRequestContext): Promise<ParseraResponsePayload> => {
+    const dispatch = (
+      index: number,
+      current: ParseraRequestContext
+    ): Promise<ParseraResponsePayload> => {
+      const middleware = middlewares[index];
+      if (!middleware) return handler(current);
+
+      let called = false;
+      return middleware(current, (next = current) => {
+        if (called) {
+          return Promise.reject(new Error('next() called multiple times'));
+        }
+        called = true;
+        return dispatch(index + 1, next);
+      });
+    };
+    return dispatch(0, context);
+  };
+};
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ParseraNetworkError,
+  ParseraRateLimitError,
+  ParseraTimeoutError,
+  ParseraValidationError
+} from '../errors/parsera.js';
+import { MockParsera } from './mock.js';
+
+describe('MockParsera', () => {
+  const attributes = { title: 'Extract the title' };
+
+  it('should answer with scripted data and record requests', async () => {
+    const parsera = new MockParsera().reply({
+      match: { path: '/extract', url: /example\.com/ },
+      data: [{ title: 'Hello' }]
+    });
+
+    await expect(parsera.extract({ url: 'https://example.com', attributes })).resolves.toEqual([
+      { title: 'Hello' }
+    ]);
+    expect(parsera.requests).toHaveLength(1);
+    expect(parsera.requests[0]).toMatchObject({
+      path: '/extract',
+      body: { url: 'https://example.com', attributes: [{ name: 'title' }] }
+    });
+  });
+
+  it('should match replies in order and use each one the given number of times', async () => {
+    const parsera = new MockParsera({
+      replies: [
+        { match: { url: 'https://a.com' }, data: [{ title: 'A' }], times: 2 },
+        { data: [{ title: 'Other' }], times: Infinity }
+      ]
+    });
+    const extract = (url: string) => parsera.extract({ url, attributes });
+
+    expect(await extract('https://a.com')).toEqual([{ title: 'A' }]);
+    expect(await extract('https://b.com')).toEqual([{ title: 'Other' }]);
+    expect(await extract('https://a.com')).toEqual([{ title: 'A' }]);
+    expect(await extract('https://a.com')).toEqual([{ title: 'Other' }]);
+  });
+
+  it('should go through the client retry policy for scripted errors', async () => {
+    const parsera = new MockParsera()
+      .reply({ status: 429 })
+      .reply({ error: new ParseraNetworkError('offline') })
+      .reply({ data: [{ title: 'Recovered' }] });
+
+    await expect(parsera.extract({ url: 'https://example.com', attributes })).resolves.toEqual([
+      { title: 'Recovered' }
+    ]);
+    expect(parsera.requests).toHaveLength(3);
+  });
+
+  it('should surface scripted errors once retries are exhausted', async () => {
+    const parsera = new MockParsera({ retryOptions: { maxRetries: 0 } }).reply({ status: 429 });
+
+    await expect(parsera.extract({ url: 'https://example.com', attributes })).rejects.toThrow(
+      ParseraRateLimitError
+    );
+  });
+
+  it('should apply latency against the client timeout', async () => {
+    const parsera = new MockParsera({ timeout: 20 }).reply({ latency: 1000, data: [] });
+
+    await expect(parsera.extract({ url: 'https://example.com', attributes })).rejects.toThrow(
+      ParseraTimeoutError
+    );
+  });
+
+  it('should answer markdown requests', async () => {
+    const parsera = new MockParsera().reply({ markdown: '# Title' });
+
+    const result = await parsera.extractMarkdown({ url: 'https://example.com' });
+    expect(result.markdown).toBe('# Title');
+  });
+
+  it('should fail clearly when no reply matches', async () => {
+    const parsera = new MockParsera();
+
+    await expect(parsera.extract({ url: 'https://example.com', attributes })).rejects.toThrow(
+      ParseraValidationError
+    );
+    await expect(parsera.extract({ url: 'https://example.com', attributes })).rejects.toThrow(
+      'No mock reply for /extract (https://example.com)'
+    );
+  });
+});
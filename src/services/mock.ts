@@ -0,0 +1,239 @@
+import { ParseraValidationError } from '../errors/parsera.js';
+import type { ParseraRequestPayload } from './middleware.js';
+import { Parsera, ParseraOptions } from './parsera.js';
+import type { ParseraFetch } from './transport.js';
+
+const MOCK_API_KEY = 'mock'.repeat(8);
+
+export interface MockRequest {
+  /**
+   * API endpoint path, e.g. "/extract"
+   */
+  path: string;
+
+  /**
+   * Full request URL
+   */
+  url: string;
+
+  /**
+   * Outgoing HTTP headers
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Parsed request body
+   */
+  body: ParseraRequestPayload;
+}
+
+export interface MockReplyMatch {
+  /**
+   * API endpoint path, e.g. "/extract" or "/parse"
+   */
+  path?: string;
+
+  /**
+   * Page URL from the request body
+   */
+  url?: string | RegExp;
+}
+
+export interface MockReply {
+  /**
+   * Requests this reply answers
+   * @default every request
+   */
+  match?: MockReplyMatch | ((request: MockRequest) => boolean);
+
+  /**
+   * Rows returned by `/extract` and `/parse`
+   * @default []
+   */
+  data?: Record<string, string>[];
+
+  /**
+   * Markdown returned by `/extract_markdown`
+   */
+  markdown?: string;
+
+  /**
+   * Raw JSON response body; takes precedence over `data` and `markdown`
+   */
+  body?: unknown;
+
+  /**
+   * HTTP status code, e.g. 429 to simulate rate limiting
+   * @default 200
+   */
+  status?: number;
+
+  /**
+   * Response headers, e.g. `{ 'Retry-After': '1' }`
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Error thrown instead of responding, e.g. `new ParseraNetworkError('offline')`
+   */
+  error?: Error;
+
+  /**
+   * Time (in milliseconds) before responding; aborts and timeouts apply
+   * @default 0
+   */
+  latency?: number;
+
+  /**
+   * Number of requests this reply answers, `Infinity` to keep it forever
+   * @default 1
+   */
+  times?: number;
+}
+
+export interface MockParseraOptions extends Partial<ParseraOptions> {
+  /**
+   * Replies scripted up front, same as calling `reply()` for each of them
+   */
+  replies?: MockReply[];
+}
+
+const matches = (reply: MockReply, request: MockRequest): boolean => {
+  const { match } = reply;
+  if (!match) return true;
+  if (typeof match === 'function') return match(request);
+  if (match.path !== undefined && match.path !== request.path) return false;
+  if (match.url !== undefined) {
+    const url = 'url' in request.body ? request.body.url : undefined;
+    if (url === undefined) return false;
+    return typeof match.url === 'string' ? match.url === url : match.url.test(url);
+  }
+  return true;
+};
+
+const sleep = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Scripted stand-in for the Parsera API, usable as the client's `fetch`
+ * Replies are matched in the order they were added
+ */
+export class MockTransport {
+  readonly requests: MockRequest[] = [];
+  private replies: { reply: MockReply; remaining: number }[] = [];
+
+  /**
+   * Adds a scripted reply
+   */
+  reply(reply: MockReply): void {
+    this.replies.push({ reply, remaining: reply.times ?? 1 });
+  }
+
+  /**
+   * Removes every scripted reply and recorded request
+   */
+  reset(): void {
+    this.replies = [];
+    this.requests.length = 0;
+  }
+
+  /**
+   * Fetch implementation answering from the scripted replies
+   */
+  readonly fetch: ParseraFetch = async (input, init = {}) => {
+    const url = new URL(input);
+    const request: MockRequest = {
+      path: url.pathname.slice(url.pathname.lastIndexOf('/')),
+      url: input,
+      headers: Object.fromEntries(new Headers(init.headers).entries()),
+      body: JSON.parse(String(init.body ?? '{}')) as ParseraRequestPayload
+    };
+    this.requests.push(request);
+
+    const index = this.replies.findIndex(({ reply }) => matches(reply, request));
+    if (index === -1) {
+      const target = 'url' in request.body ? ` (${request.body.url})` : '';
+      throw new ParseraValidationError(`No mock reply for ${request.path}${target}`);
+    }
+    const entry = this.replies[index];
+    if (--entry.remaining <= 0) this.replies.splice(index, 1);
+
+    const { reply } = entry;
+    if (reply.latency) await sleep(reply.latency, init.signal);
+    if (reply.error) throw reply.error;
+
+    const body =
+      reply.body ??
+      (reply.markdown !== undefined ? { markdown: reply.markdown } : { data: reply.data ?? [] });
+    return new Response(JSON.stringify(body), {
+      status: reply.status ?? 200,
+      headers: { 'Content-Type': 'application/json', ...reply.headers }
+    });
+  };
+}
+
+/**
+ * Drop-in replacement for `Parsera` in tests: same API, events, retries and errors,
+ * but answers come from scripted replies instead of the network.
+ * Retries have no delay and rate limiting is effectively disabled unless configured.
+ *
+ * @example
+ * ```typescript
+ * const parsera = new MockParsera()
+ *   .reply({ match: { url: 'https://example.com' }, data: [{ title: 'Hello' }] })
+ *   .reply({ status: 429, headers: { 'Retry-After': '0' } });
+ *
+ * await parsera.extract({ url: 'https://example.com', attributes: { title: 'Page title' } });
+ * expect(parsera.requests[0].body).toMatchObject({ url: 'https://example.com' });
+ * ```
+ */
+export class MockParsera extends Parsera {
+  private readonly transport: MockTransport;
+
+  constructor({ replies = [], ...options }: MockParseraOptions = {}) {
+    const transport = new MockTransport();
+    super({
+      apiKey: MOCK_API_KEY,
+      retryOptions: { initialDelay: 0 },
+      rateLimit: { requestsPerSecond: 1000, burst: 1000 },
+      ...options,
+      fetch: transport.fetch
+    });
+    this.transport = transport;
+    replies.forEach((reply) => transport.reply(reply));
+  }
+
+  /**
+   * Requests received so far, in order
+   */
+  get requests(): readonly MockRequest[] {
+    return this.transport.requests;
+  }
+
+  /**
+   * Adds a scripted reply
+   * @returns The client, for chaining
+   */
+  reply(reply: MockReply): this {
+    this.transport.reply(reply);
+    return this;
+  }
+
+  /**
+   * Removes every scripted reply and recorded request
+   */
+  reset(): void {
+    this.transport.reset();
+  }
+}
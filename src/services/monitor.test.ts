@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Parsera } from './parsera.js';
+import { FileSnapshotStore, MemorySnapshotStore } from './monitor.js';
+
+const respondWith = (...runs: Record<string, string>[][]) => {
+  const fetchMock = vi.fn();
+  runs.forEach((data) =>
+    fetchMock.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ data }) })
+  );
+  global.fetch = fetchMock;
+};
+
+describe('Parsera.monitor', () => {
+  let parsera: Parsera;
+  const extract = { url: 'https://example.com', attributes: { sku: 'SKU', price: 'Price' } };
+
+  beforeEach(() => {
+    parsera = new Parsera({ apiKey: 'x'.repeat(32), rateLimit: { requestsPerSecond: 1000 } });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record a baseline on the first check without diff events', async () => {
+    respondWith([{ sku: '1', price: '$10' }]);
+    const added = vi.fn();
+    parsera.on('monitor:added', added);
+
+    const result = await parsera.monitor({ id: 'prices', extract, key: 'sku' }).check();
+
+    expect(result.initial).toBe(true);
+    expect(added).not.toHaveBeenCalled();
+  });
+
+  it('should emit added, removed and changed rows', async () => {
+    respondWith(
+      [
+        { sku: '1', price: '$10' },
+        { sku: '2', price: '$20' }
+      ],
+      [
+        { sku: '1', price: '$12' },
+        { sku: '3', price: '$30' }
+      ]
+    );
+    const events: Record<string, unknown[]> = { added: [], removed: [], changed: [] };
+    parsera.on('monitor:added', (event) => void events.added.push(event.data));
+    parsera.on('monitor:removed', (event) => void events.removed.push(event.data));
+    parsera.on('monitor:changed', (event) => void events.changed.push(event.data));
+
+    const monitor = parsera.monitor({ id: 'prices', extract, key: 'sku' });
+    await monitor.check();
+    const result = await monitor.check();
+
+    expect(result.initial).toBe(false);
+    expect(events.added).toEqual([
+      { monitorId: 'prices', key: '3', row: { sku: '3', price: '$30' } }
+    ]);
+    expect(events.removed).toEqual([
+      { monitorId: 'prices', key: '2', row: { sku: '2', price: '$20' } }
+    ]);
+    expect(events.changed).toEqual([
+      {
+        monitorId: 'prices',
+        key: '1',
+        previous: { sku: '1', price: '$10' },
+        current: { sku: '1', price: '$12' },
+        changes: { price: { old: '$10', new: '$12' } }
+      }
+    ]);
+  });
+
+  it('should only compare the configured attributes', async () => {
+    respondWith([{ sku: '1', price: '$10', seen: 'a' }], [{ sku: '1', price: '$10', seen: 'b' }]);
+    const store = new MemorySnapshotStore();
+    const monitor = parsera.monitor({
+      id: 'prices',
+      extract,
+      key: 'sku',
+      compare: ['price'],
+      store
+    });
+
+    await monitor.check();
+    expect((await monitor.check()).changed).toEqual([]);
+    expect((await store.get('prices'))?.rows).toEqual([{ sku: '1', price: '$10', seen: 'b' }]);
+  });
+
+  it('should check on an interval and report failures as events', async () => {
+    vi.useFakeTimers();
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 400,
+      json: () => Promise.resolve({ message: 'Bad request' })
+    });
+    const onError = vi.fn();
+    parsera.on('monitor:error', onError);
+
+    const monitor = parsera.monitor({ id: 'prices', extract, key: 'sku', interval: 1000 });
+    monitor.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    monitor.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(monitor.active).toBe(false);
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls[0][0].data).toEqual({ monitorId: 'prices' });
+  });
+
+  describe('FileSnapshotStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'parsera-monitor-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should keep snapshots across store instances', async () => {
+      const snapshot = { rows: [{ sku: '1' }], takenAt: 1 };
+      await new FileSnapshotStore({ directory }).set('shop/prices', snapshot);
+      expect(await new FileSnapshotStore({ directory }).get('shop/prices')).toEqual(snapshot);
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { ParseraValidationError } from '../errors/parsera.js';
+import type { ExtractOptions } from './parsera.js';
+
+export interface MonitorSnapshot {
+  /** Rows extracted during the run */
+  rows: Record<string, string>[];
+  /** Time of the run, in milliseconds since epoch */
+  takenAt: number;
+}
+
+/**
+ * Storage for the previous snapshot of each monitor
+ * Implement this interface to keep snapshots in your own database
+ */
+export interface SnapshotStore {
+  get(id: string): Promise<MonitorSnapshot | undefined>;
+  set(id: string, snapshot: MonitorSnapshot): Promise<void>;
+}
+
+/**
+ * Keeps snapshots in memory; they are lost when the process exits
+ */
+export class MemorySnapshotStore implements SnapshotStore {
+  private readonly snapshots = new Map<string, MonitorSnapshot>();
+
+  async get(id: string): Promise<MonitorSnapshot | undefined> {
+    return this.snapshots.get(id);
+  }
+
+  async set(id: string, snapshot: MonitorSnapshot): Promise<void> {
+    this.snapshots.set(id, snapshot);
+  }
+}
+
+export interface FileSnapshotStoreOptions {
+  /**
+   * Directory the snapshot files are written to
+   * Created on first write if it does not exist
+   */
+  directory: string;
+}
+
+/**
+ * Keeps one JSON file per monitor, so diffs survive restarts
+ */
+export class FileSnapshotStore implements SnapshotStore {
+  private readonly directory: string;
+
+  constructor({ directory }: FileSnapshotStoreOptions) {
+    this.directory = directory;
+  }
+
+  private pathFor(id: string): string {
+    return join(this.directory, `${encodeURIComponent(id)}.json`);
+  }
+
+  async get(id: string): Promise<MonitorSnapshot | undefined> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(id), 'utf8')) as MonitorSnapshot;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(id: string, snapshot: MonitorSnapshot): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.pathFor(id), JSON.stringify(snapshot), 'utf8');
+  }
+}
+
+export interface MonitorOptions {
+  /**
+   * Unique name of the monitor, used as the snapshot key
+   */
+  id: string;
+
+  /**
+   * Extraction to run on every check
+   */
+  extract: ExtractOptions;
+
+  /**
+   * Attribute (or function) identifying the same row across runs
+   * @example "sku"
+   */
+  key: string | ((row: Record<string, string>) => string);
+
+  /**
+   * Attributes compared to detect changes
+   * @default every attribute of the row
+   */
+  compare?: string[];
+
+  /**
+   * Time (in milliseconds) between checks when started with `start()`
+   * @default 3600000 (1 hour)
+   */
+  interval?: number;
+
+  /**
+   * Where the previous snapshot is kept
+   * @default new MemorySnapshotStore()
+   */
+  store?: SnapshotStore;
+}
+
+export interface MonitorRowEvent {
+  monitorId: string;
+  key: string;
+  row: Record<string, string>;
+}
+
+export interface MonitorChangeEvent {
+  monitorId: string;
+  key: string;
+  previous: Record<string, string>;
+  current: Record<string, string>;
+  /** Changed attributes with their old and new values */
+  changes: Record<string, { old: string | undefined; new: string | undefined }>;
+}
+
+export interface MonitorCheckResult {
+  /** True when there was no previous snapshot; no diff events are emitted */
+  initial: boolean;
+  added: MonitorRowEvent[];
+  removed: MonitorRowEvent[];
+  changed: MonitorChangeEvent[];
+  snapshot: MonitorSnapshot;
+}
+
+export interface MonitorDependencies {
+  extract: (options: ExtractOptions) => Promise<Record<string, string>[]>;
+  emit: (eventType: string, data?: unknown, error?: Error) => Promise<void>;
+}
+
+/**
+ * Runs a saved extraction periodically and reports what changed between runs.
+ * Create monitors with `parsera.monitor()` so events go through the client.
+ */
+export class Monitor {
+  readonly id: string;
+  private readonly options: MonitorOptions;
+  private readonly store: SnapshotStore;
+  private readonly deps: MonitorDependencies;
+  private timer?: ReturnType<typeof setInterval>;
+  private running?: Promise<MonitorCheckResult>;
+
+  constructor(options: MonitorOptions, deps: MonitorDependencies) {
+    if (!options.id) {
+      throw new ParseraValidationError('Monitor id must not be empty');
+    }
+    this.id = options.id;
+    this.options = options;
+    this.store = options.store ?? new MemorySnapshotStore();
+    this.deps = deps;
+  }
+
+  /**
+   * Whether the monitor is checking on an interval
+   */
+  get active(): boolean {
+    return this.timer !== undefined;
+  }
+
+  private keyOf(row: Record<string, string>): string | undefined {
+    const { key } = this.options;
+    return typeof key === 'function' ? key(row) : row[key];
+  }
+
+  private index(rows: Record<string, string>[]): Map<string, Record<string, string>> {
+    const indexed = new Map<string, Record<string, string>>();
+    for (const row of rows) {
+      const key = this.keyOf(row);
+      if (key) indexed.set(key, row);
+    }
+    return indexed;
+  }
+
+  private diffRow(
+    previous: Record<string, string>,
+    current: Record<string, string>
+  ): MonitorChangeEvent['changes'] {
+    const fields =
+      this.options.compare ??
+      Array.from(new Set([...Object.keys(previous), ...Object.keys(current)]));
+    const changes: MonitorChangeEvent['changes'] = {};
+    for (const field of fields) {
+      if (previous[field] !== current[field]) {
+        changes[field] = { old: previous[field], new: current[field] };
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Runs the extraction once, compares it with the previous snapshot,
+   * emits `monitor:added`, `monitor:removed` and `monitor:changed`, then saves the new snapshot
+   * Concurrent calls share the same run
+   */
+  check(): Promise<MonitorCheckResult> {
+    if (!this.running) {
+      this.running = this.runCheck().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  private async runCheck(): Promise<MonitorCheckResult> {
+    const previous = await this.store.get(this.id);
+    const rows = await this.deps.extract(this.options.extract);
+    const snapshot: MonitorSnapshot = { rows, takenAt: Date.now() };
+    const result: MonitorCheckResult = {
+      initial: !previous,
+      added: [],
+      removed: [],
+      changed: [],
+      snapshot
+    };
+
+    if (previous) {
+      const before = this.index(previous.rows);
+      const after = this.index(rows);
+
+      for (const [key, row] of after) {
+        const old = before.get(key);
+        if (!old) {
+          result.added.push({ monitorId: this.id, key, row });
+          continue;
+        }
+        const changes = this.diffRow(old, row);
+        if (Object.keys(changes).length) {
+          result.changed.push({ monitorId: this.id, key, previous: old, current: row, changes });
+        }
+      }
+      for (const [key, row] of before) {
+        if (!after.has(key)) result.removed.push({ monitorId: this.id, key, row });
+      }
+    }
+
+    await this.store.set(this.id, snapshot);
+
+    for (const event of result.added) await this.deps.emit('monitor:added', event);
+    for (const event of result.removed) await this.deps.emit('monitor:removed', event);
+    for (const event of result.changed) await this.deps.emit('monitor:changed', event);
+    await this.deps.emit('monitor:check', {
+      monitorId: this.id,
+      initial: result.initial,
+      added: result.added.length,
+      removed: result.removed.length,
+      changed: result.changed.length
+    });
+
+    return result;
+  }
+
+  /**
+   * Checks immediately, then every `interval` milliseconds
+   * Failed checks emit `monitor:error` instead of throwing
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const run = () => {
+      this.check().catch((error: Error) =>
+        this.deps.emit('monitor:error', { monitorId: this.id }, error)
+      );
+    };
+    this.timer = setInterval(run, this.options.interval ?? 3600000);
+    run();
+  }
+
+  /**
+   * Stops periodic checks; a check already running is not interrupted
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
@@ -1,6 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
 import { Parsera } from './parsera.js';
+import { coerceRows } from '../schemas/extraction.js';
 import type { ParseraResponse } from '../types/parsera.js';
+import { PROXY_COUNTRIES } from '../config/constants.js';
+import {
+  ParseraAbortError,
+  ParseraAuthError,
+  ParseraBadRequestError,
+  ParseraNoDataError,
+  ParseraRateLimitError,
+  ParseraServerError,
+  ParseraValidationError
+} from '../errors/parsera.js';
 
 describe('Parsera', () => {
   let parsera: Parsera;
@@ -153,6 +165,977 @@ describe('Parsera', () => {
     });
   });
 
+  describe('validation', () => {
+    const countriesResponse = () =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ Germany: 'Germany', France: 'France' })
+      } as Response);
+    const extractResponse = () =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ data: [{ title: 'Test' }] })
+      } as Response);
+    const routedFetch = () =>
+      vi.fn((url: string) =>
+        url.endsWith('/proxy-countries') ? countriesResponse() : extractResponse()
+      );
+
+    it('should report every invalid field without sending a request', async () => {
+      global.fetch = vi.fn();
+
+      const error = await parsera
+        .extract({
+          url: 'not-a-url',
+          attributes: { title: '' },
+          precisionMode: 'yes' as unknown as boolean
+        })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ParseraValidationError);
+      expect((error as ParseraValidationError).issues.map((issue) => issue.path)).toEqual([
+        'url',
+        'attributes.title',
+        'precisionMode'
+      ]);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fetch proxy countries from the configured API once', async () => {
+      const customFetch = routedFetch();
+      const instance = new Parsera({
+        apiKey: mockApiKey,
+        baseUrl: 'https://parsera.internal/v1',
+        fetch: customFetch
+      });
+
+      await expect(instance.listProxyCountries()).resolves.toEqual(['Germany', 'France']);
+      await instance.listProxyCountries();
+
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      const [url, init] = customFetch.mock.calls[0] as unknown as [string, RequestInit];
+      expect(url).toBe('https://parsera.internal/v1/proxy-countries');
+      expect(init.headers).toMatchObject({ 'X-API-KEY': mockApiKey });
+    });
+
+    it('should leave proxy countries to the API until they are listed', async () => {
+      const customFetch = routedFetch();
+      const instance = new Parsera({ apiKey: mockApiKey, fetch: customFetch });
+      const extract = (proxyCountry: string) =>
+        instance.extract({
+          url: 'https://example.com',
+          attributes: { title: 'Extract the title' },
+          proxyCountry
+        });
+
+      await expect(extract('Atlantis')).resolves.toEqual([{ title: 'Test' }]);
+      await expect(extract('random')).resolves.toEqual([{ title: 'Test' }]);
+      expect(customFetch).toHaveBeenCalledTimes(2);
+      expect(customFetch.mock.calls.map(([url]) => url)).not.toContain(
+        'https://api.parsera.org/v1/proxy-countries'
+      );
+    });
+
+    it('should check proxy countries, the default included, once listed', async () => {
+      const instance = new Parsera({
+        apiKey: mockApiKey,
+        defaultProxyCountry: 'Japan',
+        fetch: routedFetch()
+      });
+      await instance.listProxyCountries();
+      const extract = (proxyCountry?: string) =>
+        instance.extract({
+          url: 'https://example.com',
+          attributes: { title: 'Extract the title' },
+          proxyCountry
+        });
+
+      await expect(extract('Japan')).rejects.toThrow(
+        'proxyCountry: Unsupported proxy country "Japan"'
+      );
+      await expect(extract()).rejects.toThrow('proxyCountry: Unsupported proxy country "Japan"');
+      await expect(extract('Germany')).resolves.toEqual([{ title: 'Test' }]);
+    });
+
+    it('should fall back to the bundled list when the lookup fails', async () => {
+      const customFetch = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 503, json: () => Promise.resolve({}) })
+        .mockImplementation(extractResponse);
+      const instance = new Parsera({
+        apiKey: mockApiKey,
+        fetch: customFetch,
+        retryOptions: { maxRetries: 0 }
+      });
+
+      await expect(instance.listProxyCountries()).resolves.toEqual([...PROXY_COUNTRIES]);
+      // Names missing from the snapshot are still left to the API
+      await expect(
+        instance.extract({
+          url: 'https://example.com',
+          attributes: { title: 'Extract the title' },
+          proxyCountry: 'Atlantis'
+        })
+      ).resolves.toEqual([{ title: 'Test' }]);
+    });
+
+    it('should report rejected keys without caching them', async () => {
+      const customFetch = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 401, json: () => Promise.resolve({}) })
+        .mockImplementation(countriesResponse);
+      const instance = new Parsera({ apiKey: mockApiKey, fetch: customFetch });
+
+      await expect(instance.listProxyCountries()).rejects.toThrow(ParseraAuthError);
+      await expect(instance.listProxyCountries()).resolves.toEqual(['Germany', 'France']);
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('error handling', () => {
+    const errorResponse = (
+      status: number,
+      body: unknown,
+      headers: Record<string, string> = {}
+    ) => ({
+      ok: false,
+      status,
+      statusText: 'Error',
+      headers: new Headers(headers),
+      json: () => Promise.resolve(body)
+    });
+
+    const extractTitle = () =>
+      parsera.extract({
+        url: 'https://example.com',
+        attributes: { title: 'Extract the title' }
+      });
+
+    it('should throw ParseraAuthError with status and code on 401', async () => {
+      global.fetch = vi
+        .fn()
+        .mockResolvedValue(errorResponse(401, { message: 'Unauthorized', code: 'invalid_key' }));
+
+      const error = await extractTitle().catch((e) => e);
+      expect(error).toBeInstanceOf(ParseraAuthError);
+      expect(error.status).toBe(401);
+      expect(error.code).toBe('invalid_key');
+      expect(error.attempts).toBe(1);
+    });
+
+    it('should throw ParseraBadRequestError on 400', async () => {
+      global.fetch = vi.fn().mockResolvedValue(errorResponse(400, { message: 'Bad attributes' }));
+
+      await expect(extractTitle()).rejects.toThrow(ParseraBadRequestError);
+      await expect(extractTitle()).rejects.toThrow('Bad request: Bad attributes');
+    });
+
+    it('should throw ParseraServerError on 5xx without retrying', async () => {
+      global.fetch = vi.fn().mockResolvedValue(errorResponse(500, { message: 'Boom' }));
+
+      await expect(extractTitle()).rejects.toThrow(ParseraServerError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw ParseraRateLimitError with retryAfter once retries are exhausted', async () => {
+      parsera = new Parsera({
+        apiKey: mockApiKey,
+        retryOptions: { maxRetries: 1, initialDelay: 1 }
+      });
+      global.fetch = vi.fn().mockResolvedValue(errorResponse(429, {}, { 'Retry-After': '2' }));
+
+      const error = await extractTitle().catch((e) => e);
+      expect(error).toBeInstanceOf(ParseraRateLimitError);
+      expect(error.retryAfter).toBe(2000);
+      expect(error.attempts).toBe(2);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw ParseraNoDataError on empty results', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ data: [] })
+      });
+
+      await expect(extractTitle()).rejects.toThrow(ParseraNoDataError);
+    });
+
+    it('should throw ParseraAbortError when the signal is already aborted', async () => {
+      global.fetch = vi.fn();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        parsera.extract({
+          url: 'https://example.com',
+          attributes: { title: 'Extract the title' },
+          signal: controller.signal
+        })
+      ).rejects.toThrow(ParseraAbortError);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should throw ParseraValidationError for invalid URLs', async () => {
+      await expect(
+        parsera.extract({ url: 'invalid-url', attributes: { title: 'Extract the title' } })
+      ).rejects.toThrow(ParseraValidationError);
+    });
+  });
+
+  describe('retry policy', () => {
+    const okResponse = {
+      ok: true,
+      json: () => Promise.resolve({ data: [{ title: 'Test' }] })
+    };
+    const statusResponse = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: 'Error',
+      headers: new Headers(headers),
+      json: () => Promise.resolve({ message: 'Error' })
+    });
+    const extractTitle = () =>
+      parsera.extract({ url: 'https://example.com', attributes: { title: 'Extract the title' } });
+
+    it('should retry retryable status codes and report retry metadata', async () => {
+      parsera = new Parsera({ apiKey: mockApiKey, retryOptions: { initialDelay: 1 } });
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(statusResponse(503))
+        .mockResolvedValueOnce(statusResponse(502))
+        .mockResolvedValueOnce(okResponse);
+      const onRetry = vi.fn();
+      parsera.on('request:retry', onRetry);
+
+      await expect(extractTitle()).resolves.toEqual([{ title: 'Test' }]);
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[1][0]).toMatchObject({
+        retryCount: 2,
+        data: { attempt: 2, delay: 2, totalDelay: 3 }
+      });
+    });
+
+    it('should honor Retry-After when it is longer than the backoff delay', async () => {
+      parsera = new Parsera({ apiKey: mockApiKey, retryOptions: { initialDelay: 1 } });
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(statusResponse(503, { 'Retry-After': '0.05' }))
+        .mockResolvedValueOnce(okResponse);
+      const onRetry = vi.fn();
+      parsera.on('request:retry', onRetry);
+
+      await extractTitle();
+      expect(onRetry.mock.calls[0][0].data.delay).toBe(50);
+    });
+
+    it('should stop retrying once maxTotalDelay would be exceeded', async () => {
+      parsera = new Parsera({
+        apiKey: mockApiKey,
+        retryOptions: { initialDelay: 10, maxTotalDelay: 25 }
+      });
+      global.fetch = vi.fn().mockResolvedValue(statusResponse(503));
+
+      const error = await extractTitle().catch((e) => e);
+      expect(error).toBeInstanceOf(ParseraServerError);
+      expect(error.attempts).toBe(2);
+    });
+
+    it('should use a custom shouldRetry predicate', async () => {
+      const shouldRetry = vi.fn().mockReturnValue(true);
+      parsera = new Parsera({
+        apiKey: mockApiKey,
+        retryOptions: { initialDelay: 1, maxRetries: 2, shouldRetry }
+      });
+      global.fetch = vi.fn().mockResolvedValue(statusResponse(500));
+
+      await expect(extractTitle()).rejects.toThrow(ParseraServerError);
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(shouldRetry).toHaveBeenCalledWith(expect.any(ParseraServerError), 1);
+    });
+
+    it('should keep jittered delays within the backoff delay', async () => {
+      parsera = new Parsera({
+        apiKey: mockApiKey,
+        retryOptions: { initialDelay: 20, jitter: 'full' }
+      });
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(statusResponse(504))
+        .mockResolvedValue(okResponse);
+      const onRetry = vi.fn();
+      parsera.on('request:retry', onRetry);
+
+      await extractTitle();
+      const { delay } = onRetry.mock.calls[0][0].data;
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(20);
+    });
+  });
+
+  describe('parse', () => {
+    it('should send content and attributes to the parse endpoint', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ data: [{ name: 'Widget', price: '$10' }] })
+      });
+
+      const result = await parsera.parse({
+        content: '<li>Widget - $10</li>',
+        attributes: { name: 'Product name', price: 'Product price' },
+        precisionMode: true
+      });
+
+      expect(result).toEqual([{ name: 'Widget', price: '$10' }]);
+      expect(fetch).toHaveBeenCalledWith(
+        expect.stringMatching(/\/parse$/),
+        expect.objectContaining({ method: 'POST' })
+      );
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+      expect(body).toEqual({
+        content: '<li>Widget - $10</li>',
+        attributes: [
+          { name: 'name', description: 'Product name' },
+          { name: 'price', description: 'Product price' }
+        ],
+        mode: 'precision'
+      });
+    });
+
+    it('should reject empty content without sending a request', async () => {
+      global.fetch = vi.fn();
+      const onError = vi.fn();
+      parsera.on('parse:error', onError);
+
+      await expect(parsera.parse({ content: '  ', attributes: { name: 'Name' } })).rejects.toThrow(
+        ParseraValidationError
+      );
+      expect(fetch).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalled();
+    });
+
+    it('should share error handling with extract', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 401,
+        json: () => Promise.resolve({ message: 'Unauthorized' })
+      });
+
+      await expect(
+        parsera.parse({ content: 'Widget', attributes: { name: 'Name' } })
+      ).rejects.toThrow(ParseraAuthError);
+    });
+  });
+
+  describe('extractMarkdown', () => {
+    it('should return markdown with metadata', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ markdown: '# Title' })
+      });
+
+      const result = await parsera.extractMarkdown({
+        url: 'https://example.com',
+        proxyCountry: 'Germany',
+        cookies: [{ name: 'session', value: 'abc', sameSite: 'Lax' }]
+      });
+
+      expect(result).toMatchObject({
+        url: 'https://example.com',
+        markdown: '# Title',
+        proxyCountry: 'Germany',
+        extractedAt: expect.any(Number)
+      });
+      expect(fetch).toHaveBeenCalledWith(
+        expect.stringMatching(/\/extract_markdown$/),
+        expect.objectContaining({ method: 'POST' })
+      );
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+      expect(body).toEqual({
+        url: 'https://example.com',
+        proxy_country: 'Germany',
+        cookies: [{ name: 'session', value: 'abc', sameSite: 'Lax' }]
+      });
+    });
+
+    it('should throw ParseraNoDataError on empty markdown', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ markdown: '' })
+      });
+
+      await expect(parsera.extractMarkdown({ url: 'https://example.com' })).rejects.toThrow(
+        ParseraNoDataError
+      );
+    });
+  });
+
+  describe('extractTyped', () => {
+    beforeEach(() => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            data: [
+              { title: ' Widget ', price: '$1,299.00', inStock: 'yes' },
+              { title: 'Gadget', price: 'call us', inStock: 'no' }
+            ]
+          })
+      });
+    });
+
+    it('should derive attributes from a zod schema and coerce rows', async () => {
+      const result = await parsera.extractTyped({
+        url: 'https://example.com',
+        schema: z.object({
+          title: z.string().describe('Extract the title'),
+          price: z.number().describe('Get the price'),
+          inStock: z.boolean().describe('Whether it is in stock')
+        })
+      });
+
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]?.body as string);
+      expect(body.attributes).toEqual([
+        { name: 'title', description: 'Extract the title' },
+        { name: 'price', description: 'Get the price' },
+        { name: 'inStock', description: 'Whether it is in stock' }
+      ]);
+      expect(result.data).toEqual([{ title: 'Widget', price: 1299, inStock: true }]);
+      expect(result.report[0]).toMatchObject({ index: 0, valid: true, issues: [] });
+      expect(result.report[1]).toMatchObject({
+        index: 1,
+        valid: false,
+        issues: [{ field: 'price', value: 'call us' }]
+      });
+    });
+
+    it('should accept a typed attribute map', async () => {
+      const result = await parsera.extractTyped({
+        url: 'https://example.com',
+        schema: {
+          title: { type: 'string', description: 'Extract the title' },
+          price: { type: 'number', description: 'Get the price', optional: true }
+        }
+      });
+
+      expect(result.data).toEqual([{ title: 'Widget', price: 1299 }]);
+      expect(result.report[1].issues).toEqual([
+        { field: 'price', value: 'call us', message: 'Expected number, received string' }
+      ]);
+    });
+
+    it('should only coerce unambiguous numbers and dates', () => {
+      const schema = z.object({ value: z.number().optional(), date: z.date().optional() });
+      const coerce = (row: Record<string, string>) => coerceRows([row], schema).report[0];
+
+      expect(coerceRows([{ value: '$1,299.00' }, { value: '1 299 €' }], schema).data).toEqual([
+        { value: 1299 },
+        { value: 1299 }
+      ]);
+      for (const value of ['4.5 out of 5', 'Page 3 of 10', '1e3', '1.299,00']) {
+        expect(coerce({ value }).issues).toEqual([
+          { field: 'value', value, message: 'Expected number, received string' }
+        ]);
+      }
+
+      expect(coerceRows([{ date: '2024-03-05' }], schema).data[0].date?.toISOString()).toBe(
+        '2024-03-05T00:00:00.000Z'
+      );
+      expect(coerce({ date: 'March 5, 2024' }).valid).toBe(true);
+      for (const date of ['1', '03/05/2024', '2024-02-30']) {
+        expect(coerce({ date }).valid).toBe(false);
+      }
+    });
+  });
+
+  describe('extractMany', () => {
+    it('should return per-item results without rejecting the batch', async () => {
+      global.fetch = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+        const { url } = JSON.parse(init.body as string);
+        if (url.endsWith('/bad')) {
+          return Promise.resolve({
+            ok: false,
+            status: 400,
+            json: () => Promise.resolve({ message: 'Bad page' })
+          });
+        }
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve({ data: [{ title: url }] })
+        });
+      });
+
+      const results = await parsera.extractMany(
+        {
+          urls: ['https://example.com/a', 'https://example.com/bad', 'https://example.com/c'],
+          attributes: { title: 'Extract the title' }
+        },
+        { concurrency: 2 }
+      );
+
+      expect(results.map((result) => result.success)).toEqual([true, false, true]);
+      expect(results[0]).toMatchObject({ index: 0, data: [{ title: 'https://example.com/a' }] });
+      expect(results[1]).toMatchObject({ index: 1, input: { url: 'https://example.com/bad' } });
+    });
+
+    it('should limit concurrency and emit progress events', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      global.fetch = vi.fn().mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return { ok: true, json: () => Promise.resolve({ data: [{ title: 'Test' }] }) };
+      });
+
+      const progress = vi.fn();
+      const complete = vi.fn();
+      parsera.on('batch:progress', progress);
+      parsera.on('batch:complete', complete);
+
+      const inputs = Array.from({ length: 4 }, (_, i) => ({
+        url: `https://example.com/${i}`,
+        attributes: { title: 'Extract the title' }
+      }));
+      await parsera.extractMany(inputs, { concurrency: 2 });
+
+      expect(maxInFlight).toBeLessThanOrEqual(2);
+      expect(progress).toHaveBeenCalledTimes(4);
+      expect(complete).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { completed: 4, total: 4, succeeded: 4, failed: 0 } })
+      );
+    });
+  });
+
+  describe('extractStream', () => {
+    const attributes = { title: 'Extract the title' };
+
+    beforeEach(() => {
+      parsera = new Parsera({
+        apiKey: mockApiKey,
+        rateLimit: { requestsPerSecond: 1000, burst: 10 }
+      });
+      global.fetch = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+        const { url } = JSON.parse(init.body as string);
+        if (url.endsWith('/slow')) {
+          await new Promise((resolve, reject) => {
+            const timer = setTimeout(resolve, 50);
+            init.signal?.addEventListener('abort', () => {
+              clearTimeout(timer);
+              reject(new Error('aborted'));
+            });
+          });
+        }
+        if (url.endsWith('/bad')) {
+          return { ok: false, status: 400, json: () => Promise.resolve({ message: 'Bad page' }) };
+        }
+        return { ok: true, json: () => Promise.resolve({ data: [{ title: url }] }) };
+      });
+    });
+
+    it('should yield results as they complete, pulling inputs lazily', async () => {
+      const pulled: string[] = [];
+      let closed = false;
+      async function* urls() {
+        try {
+          for (const path of ['slow', 'fast', 'bad', 'next', 'last']) {
+            pulled.push(path);
+            yield `https://example.com/${path}`;
+          }
+        } finally {
+          closed = true;
+        }
+      }
+
+      const stream = parsera.extractStream({ urls: urls(), attributes }, { concurrency: 2 });
+      const first = await stream.next();
+      expect(first.value).toMatchObject({
+        index: 1,
+        success: true,
+        input: { url: 'https://example.com/fast' }
+      });
+      expect(pulled).toEqual(['slow', 'fast']);
+
+      const results = [first.value];
+      for await (const result of stream) {
+        results.push(result);
+        if (results.length === 3) break;
+      }
+
+      expect(results.map((result) => result.index)).toEqual([1, 2, 3]);
+      expect(results[1]).toMatchObject({
+        success: false,
+        input: { url: 'https://example.com/bad' }
+      });
+      expect(pulled).toEqual(['slow', 'fast', 'bad', 'next']);
+      expect(closed).toBe(true);
+    });
+
+    it('should yield results while the source is producing its next input', async () => {
+      let release = () => {};
+      async function* urls() {
+        yield 'https://example.com/fast';
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+        yield 'https://example.com/last';
+      }
+
+      const stream = parsera.extractStream({ urls: urls(), attributes }, { concurrency: 2 });
+      expect((await stream.next()).value).toMatchObject({ index: 0, success: true });
+
+      release();
+      expect((await stream.next()).value).toMatchObject({
+        index: 1,
+        input: { url: 'https://example.com/last' }
+      });
+      expect((await stream.next()).done).toBe(true);
+    });
+
+    it('should end when aborted while the source is idle', async () => {
+      const controller = new AbortController();
+      async function* urls() {
+        yield 'https://example.com/fast';
+        await new Promise(() => {});
+      }
+
+      const results: number[] = [];
+      const run = async () => {
+        for await (const result of parsera.extractStream(
+          { urls: urls(), attributes },
+          { signal: controller.signal }
+        )) {
+          results.push(result.index);
+          setTimeout(() => controller.abort(), 10);
+        }
+      };
+
+      await expect(run()).rejects.toThrow(ParseraAbortError);
+      expect(results).toEqual([0]);
+    });
+
+    it('should stop and cancel extractions in flight when aborted', async () => {
+      const controller = new AbortController();
+      const inputs = ['fast', 'slow', 'slow'].map((path) => ({
+        url: `https://example.com/${path}`,
+        attributes
+      }));
+
+      const results: number[] = [];
+      const run = async () => {
+        for await (const result of parsera.extractStream(inputs, {
+          concurrency: 3,
+          signal: controller.signal
+        })) {
+          results.push(result.index);
+          controller.abort();
+        }
+      };
+
+      await expect(run()).rejects.toThrow(ParseraAbortError);
+      expect(results).toEqual([0]);
+      const slow = vi
+        .mocked(global.fetch)
+        .mock.calls.filter(([, init]) => String(init?.body).includes('/slow'));
+      expect(slow).toHaveLength(2);
+      expect(slow.every(([, init]) => init?.signal?.aborted)).toBe(true);
+    });
+  });
+
+  describe('middleware', () => {
+    beforeEach(() => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ data: [{ title: 'Test' }] })
+      });
+    });
+
+    const extractTitle = () =>
+      parsera.extract({ url: 'https://example.com', attributes: { title: 'Extract the title' } });
+
+    it('should run middlewares in order and let them modify the request', async () => {
+      const order: string[] = [];
+      parsera
+        .use(async (context, next) => {
+          order.push('first:before');
+          context.headers['X-Trace-Id'] = 'trace-1';
+          context.baseUrl = 'https://staging.parsera.org/v1';
+          const response = await next();
+          order.push('first:after');
+          return response;
+        })
+        .use(async (context, next) => {
+          order.push('second:before');
+          const response = await next({
+            ...context,
+            body: { ...context.body, url: 'https://example.com/rewritten' }
+          });
+          order.push('second:after');
+          return response;
+        });
+
+      await extractTitle();
+
+      expect(order).toEqual(['first:before', 'second:before', 'second:after', 'first:after']);
+      const [url, init] = vi.mocked(fetch).mock.calls[0];
+      expect(url).toBe('https://staging.parsera.org/v1/extract');
+      expect(init?.headers).toMatchObject({ 'X-Trace-Id': 'trace-1', 'X-API-KEY': mockApiKey });
+      expect(JSON.parse(init?.body as string).url).toBe('https://example.com/rewritten');
+    });
+
+    it('should let middlewares post-process the response', async () => {
+      parsera.use(async (_context, next) => {
+        const response = await next();
+        return 'data' in response
+          ? { data: response.data.map((row) => ({ ...row, title: row.title.toUpperCase() })) }
+          : response;
+      });
+
+      await expect(extractTitle()).resolves.toEqual([{ title: 'TEST' }]);
+    });
+
+    it('should short-circuit when next is not called', async () => {
+      parsera.use(async () => ({ data: [{ title: 'From middleware' }] }));
+
+      await expect(extractTitle()).resolves.toEqual([{ title: 'From middleware' }]);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject when next is called twice', async () => {
+      parsera.use(async (_context, next) => {
+        await next();
+        return next();
+      });
+
+      await expect(extractTitle()).rejects.toThrow('next() called multiple times');
+    });
+  });
+
+  describe('transport', () => {
+    const okResponse = () =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ data: [{ title: 'Test' }] })
+      } as Response);
+
+    const extractTitle = (instance: Parsera) =>
+      instance.extract({ url: 'https://example.com', attributes: { title: 'Extract the title' } });
+
+    beforeEach(() => {
+      global.fetch = vi.fn().mockImplementation(okResponse);
+    });
+
+    it('should use the custom fetch instead of the global one', async () => {
+      const customFetch = vi.fn().mockImplementation(okResponse);
+      const instance = new Parsera({ apiKey: mockApiKey, fetch: customFetch });
+
+      await expect(extractTitle(instance)).resolves.toEqual([{ title: 'Test' }]);
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(customFetch.mock.calls[0][0]).toBe('https://api.parsera.org/v1/extract');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should send extra headers without overriding the API key', async () => {
+      const instance = new Parsera({
+        apiKey: mockApiKey,
+        transport: { headers: { 'User-Agent': 'my-app/1.0', 'X-API-KEY': 'other' } }
+      });
+
+      await extractTitle(instance);
+
+      const [, init] = vi.mocked(fetch).mock.calls[0];
+      expect(init?.headers).toEqual({
+        'User-Agent': 'my-app/1.0',
+        'Content-Type': 'application/json',
+        'X-API-KEY': mockApiKey
+      });
+    });
+
+    it('should pass the dispatcher and agent to every request', async () => {
+      const dispatcher = { name: 'dispatcher' };
+      const agent = { name: 'agent' };
+      const instance = new Parsera({
+        apiKey: mockApiKey,
+        transport: { dispatcher, agent, proxy: 'http://proxy.local:8080' }
+      });
+
+      await extractTitle(instance);
+
+      const [, init] = vi.mocked(fetch).mock.calls[0];
+      expect(init).toMatchObject({ dispatcher, agent });
+    });
+  });
+
+  describe('telemetry', () => {
+    interface RecordedSpan {
+      name: string;
+      attributes: Record<string, unknown>;
+      parent?: RecordedSpan;
+      status?: { code: number };
+      exceptions: Error[];
+      ended: boolean;
+    }
+
+    const createTelemetry = () => {
+      const spans: RecordedSpan[] = [];
+      const metrics: { name: string; value: number; attributes?: Record<string, unknown> }[] = [];
+      const instrument = (name: string) => ({
+        add: (value: number, attributes?: Record<string, unknown>) =>
+          metrics.push({ name, value, attributes }),
+        record: (value: number, attributes?: Record<string, unknown>) =>
+          metrics.push({ name, value, attributes })
+      });
+      const tracer = {
+        startSpan: (
+          name: string,
+          options: { attributes?: Record<string, string | number | boolean> },
+          parent?: unknown
+        ) => {
+          const span: RecordedSpan = {
+            name,
+            attributes: { ...options.attributes },
+            parent: spans.find(
+              (candidate) => candidate === (parent as { record: RecordedSpan })?.record
+            ),
+            exceptions: [],
+            ended: false
+          };
+          spans.push(span);
+          return {
+            record: span,
+            setAttribute: (key: string, value: unknown) => (span.attributes[key] = value),
+            setAttributes: (attributes: Record<string, unknown>) =>
+              Object.assign(span.attributes, attributes),
+            recordException: (error: Error) => span.exceptions.push(error),
+            setStatus: (status: { code: number }) => (span.status = status),
+            end: () => (span.ended = true)
+          };
+        }
+      };
+      const meter = { createCounter: instrument, createHistogram: instrument };
+      return { spans, metrics, telemetry: { tracer, meter } };
+    };
+
+    const statusResponse = (status: number) => ({
+      ok: false,
+      status,
+      statusText: 'Error',
+      headers: new Headers(),
+      json: () => Promise.resolve({ message: 'Error' })
+    });
+
+    it('should trace the call with a child span per HTTP attempt', async () => {
+      const { spans, metrics, telemetry } = createTelemetry();
+      parsera = new Parsera({ apiKey: mockApiKey, retryOptions: { initialDelay: 1 }, telemetry });
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(statusResponse(503))
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ data: [{ title: 'Test' }] })
+        });
+
+      await parsera.extract({
+        url: 'https://shop.example.com/products',
+        attributes: { title: 'Extract the title' },
+        precisionMode: true
+      });
+
+      const [root, first, second] = spans;
+      expect(spans).toHaveLength(3);
+      expect(root).toMatchObject({
+        name: 'parsera.extract',
+        attributes: {
+          'parsera.url.host': 'shop.example.com',
+          'parsera.mode': 'precision',
+          'parsera.proxy_country': 'UnitedStates',
+          'parsera.retry_count': 1,
+          'parsera.rows': 1
+        },
+        status: { code: 1 },
+        ended: true
+      });
+      expect(first).toMatchObject({
+        name: 'POST /extract',
+        parent: root,
+        attributes: { 'http.response.status_code': 503 },
+        status: { code: 2 }
+      });
+      expect(second).toMatchObject({
+        parent: root,
+        attributes: { 'http.response.status_code': 200, 'http.request.resend_count': 1 }
+      });
+
+      const names = metrics.map((metric) => metric.name);
+      expect(names.filter((name) => name === 'parsera.request.duration')).toHaveLength(2);
+      expect(names.filter((name) => name === 'parsera.request.retries')).toHaveLength(1);
+      expect(metrics.find((metric) => metric.name === 'parsera.operation.duration')).toMatchObject({
+        attributes: { 'parsera.operation': 'extract', 'parsera.outcome': 'success' }
+      });
+    });
+
+    it('should record failed calls and rate limits', async () => {
+      const { spans, metrics, telemetry } = createTelemetry();
+      parsera = new Parsera({ apiKey: mockApiKey, retryOptions: { maxRetries: 0 }, telemetry });
+      global.fetch = vi.fn().mockResolvedValue(statusResponse(429));
+
+      await expect(
+        parsera.extract({ url: 'https://example.com', attributes: { title: 'Extract the title' } })
+      ).rejects.toThrow(ParseraRateLimitError);
+
+      expect(spans[0].status).toMatchObject({ code: 2 });
+      expect(spans[0].exceptions[0]).toBeInstanceOf(ParseraRateLimitError);
+      expect(metrics).toContainEqual({
+        name: 'parsera.request.rate_limited',
+        value: 1,
+        attributes: { 'parsera.endpoint': '/extract' }
+      });
+      expect(metrics).toContainEqual({
+        name: 'parsera.errors',
+        value: 1,
+        attributes: {
+          'parsera.operation': 'extract',
+          'parsera.outcome': 'error',
+          'error.type': 'ParseraRateLimitError'
+        }
+      });
+    });
+
+    it('should emit request:start and request:end for every attempt', async () => {
+      parsera = new Parsera({ apiKey: mockApiKey, retryOptions: { initialDelay: 1 } });
+      global.fetch = vi
+        .fn()
+        .mockResolvedValueOnce(statusResponse(503))
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ data: [{ title: 'Test' }] })
+        });
+      const onStart = vi.fn();
+      const onEnd = vi.fn();
+      parsera.on('request:start', onStart);
+      parsera.on('request:end', onEnd);
+
+      await parsera.extract({
+        url: 'https://example.com',
+        attributes: { title: 'Extract the title' }
+      });
+
+      expect(onStart).toHaveBeenCalledTimes(2);
+      expect(onStart.mock.calls[0][0].data).toEqual({
+        method: 'POST',
+        url: 'https://api.parsera.org/v1/extract'
+      });
+      expect(onEnd).toHaveBeenCalledTimes(2);
+      expect(onEnd.mock.calls[0][0]).toMatchObject({ data: { status: 503 }, retryCount: 0 });
+      expect(onEnd.mock.calls[0][0].error).toBeInstanceOf(ParseraServerError);
+      expect(onEnd.mock.calls[1][0]).toMatchObject({ data: { status: 200 }, retryCount: 1 });
+      expect(onEnd.mock.calls[1][0].data.duration).toBeGreaterThanOrEqual(0);
+    });
+  });
+
   describe('event handling', () => {
     it('should emit events in correct order', async () => {
       const events: string[] = [];
@@ -1,9 +1,107 @@
-import { ParseraError, ParseraRequestBody, ParseraResponse } from '../types/parsera.js';
+import { z } from 'zod';
+import {
+  ParseraError,
+  ParseraMarkdownRequestBody,
+  ParseraMarkdownResponse,
+  ParseraParseRequestBody,
+  ParseraRequestBody,
+  ParseraResponse
+} from '../types/parsera.js';
+import {
+  ParseraAbortError,
+  ParseraAPIError,
+  ParseraAuthError,
+  ParseraBadRequestError,
+  ParseraBaseError,
+  ParseraNetworkError,
+  ParseraNoDataError,
+  ParseraRateLimitError,
+  ParseraServerError,
+  ParseraTimeoutError,
+  ParseraValidationError
+} from '../errors/parsera.js';
+import { parseRetryAfter } from '../utils/http.js';
+import { validateExtractOptions } from '../utils/validation.js';
+import { fetchProxyCountries } from '../schemas/input.js';
+import { PROXY_COUNTRIES } from '../config/constants.js';
+import { mapWithConcurrency, streamWithConcurrency } from '../utils/concurrency.js';
+import { computeRetryDelay, RetryJitter } from '../utils/retry.js';
+import { RateLimiter, RateLimiterOptions } from './rate-limiter.js';
+import { crawl, CrawlOptions, CrawlPage } from './crawler.js';
+import { Monitor, MonitorOptions } from './monitor.js';
+import { ExtractionQueue, ExtractionQueueOptions } from './queue.js';
+import { BUILT_IN_TEMPLATES, ExtractionTemplate, TemplateRegistry } from './templates.js';
+import { applyTransforms, ParseraTransform } from './transforms.js';
+import { checkQuality, QualityReport, QualityRules } from './quality.js';
+import { ParseraSpan, ParseraTelemetryOptions, Telemetry } from './telemetry.js';
+import {
+  ParseraEvent,
+  ParseraEventEmitter,
+  ParseraEventHandler,
+  ParseraEventMap,
+  ParseraEventName,
+  ParseraEventOptions,
+  ParseraEventPattern,
+  ParseraEventsMatching,
+  ParseraEventType,
+  ParseraTypedEvent,
+  ParseraTypedEventHandler
+} from './events.js';
+import {
+  CREDIT_COSTS,
+  CreditTracker,
+  ParseraBudgetOptions,
+  ParseraCreditUsage
+} from './credits.js';
+import {
+  createTransport,
+  globalFetch,
+  ParseraFetch,
+  ParseraTransportOptions
+} from './transport.js';
+import {
+  composeMiddleware,
+  ParseraMiddleware,
+  ParseraRequestContext,
+  ParseraRequestPayload,
+  ParseraResponsePayload
+} from './middleware.js';
+import { CacheStore, createCacheKey, MemoryCacheStore, ParseraCacheOptions } from './cache.js';
+import {
+  coerceRows,
+  InferTypedAttributes,
+  ParseraTypedAttributeMap,
+  schemaToAttributes,
+  typedAttributesToSchema,
+  TypedExtractResult
+} from '../schemas/extraction.js';
+
+// Billable operation, its expected cost and the tags its credits are counted under
+interface ParseraCharge {
+  operation: string;
+  cost: number;
+  tags?: string[];
+}
+
+// Proxy countries rarely change; a failed lookup is retried sooner
+const PROXY_COUNTRIES_TTL = 24 * 60 * 60 * 1000;
+const PROXY_COUNTRIES_RETRY_DELAY = 60 * 1000;
+
+export interface ParseraRetryContext {
+  /** Error thrown by the failed attempt */
+  error: ParseraBaseError;
+  /** Number of the failed attempt, starting at 1 */
+  attempt: number;
+  /** Delay (in milliseconds) that will be waited before the next attempt */
+  delay: number;
+  /** Sum of the delays waited so far, including `delay` */
+  totalDelay: number;
+}
 
 export interface ParseraRetryOptions {
   /**
    * Maximum number of retry attempts for failed requests
-   * Applies to network errors, timeouts, and rate limits
+   * Applies to network errors and to responses with a retryable status code
    * @default 3
    */
   maxRetries?: number;
@@ -22,6 +120,47 @@ export interface ParseraRetryOptions {
    * @default 1000 (1 second)
    */
   initialDelay?: number;
+
+  /**
+   * Maximum delay (in milliseconds) before a single retry
+   * @default 30000 (30 seconds)
+   */
+  maxDelay?: number;
+
+  /**
+   * Maximum time (in milliseconds) spent waiting between retries for one request
+   * Retrying stops once the next delay would exceed this budget
+   * @default Infinity
+   */
+  maxTotalDelay?: number;
+
+  /**
+   * Randomization applied to the backoff delay
+   * "full" waits a random time up to the backoff delay,
+   * "decorrelated" grows from the previous delay, spreading retries across clients
+   * @default "none"
+   */
+  jitter?: RetryJitter;
+
+  /**
+   * HTTP status codes that are retried
+   * @default [429, 502, 503, 504]
+   */
+  retryableStatusCodes?: number[];
+
+  /**
+   * Whether to wait at least as long as the API's `Retry-After` header asks for
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+
+  /**
+   * Custom predicate deciding whether a failed attempt is retried
+   * Replaces the default decision; `maxRetries` and `maxTotalDelay` still apply
+   * @param error - Error thrown by the failed attempt
+   * @param attempt - Number of the failed attempt, starting at 1
+   */
+  shouldRetry?: (error: ParseraBaseError, attempt: number) => boolean | Promise<boolean>;
 }
 
 export interface ParseraAttribute {
@@ -40,9 +179,44 @@ export interface ParseraAttribute {
 
 export interface ParseraCookie {
   /**
-   * Cookie properties as key-value pairs
+   * Cookie name
+   */
+  name: string;
+
+  /**
+   * Cookie value
+   */
+  value: string;
+
+  /**
+   * Domain the cookie is sent to
+   * A leading dot (".example.com") includes subdomains
    */
-  [key: string]: string;
+  domain?: string;
+
+  /**
+   * Path the cookie is sent to
+   * @default "/"
+   */
+  path?: string;
+
+  /**
+   * Expiry time as a Unix timestamp in seconds
+   * Session cookie when omitted
+   */
+  expires?: number;
+
+  /**
+   * Whether the cookie is only sent over HTTPS
+   * @default false
+   */
+  secure?: boolean;
+
+  /**
+   * Whether the cookie is hidden from page scripts
+   * @default false
+   */
+  httpOnly?: boolean;
 
   /**
    * SameSite attribute for the cookie
@@ -76,7 +250,8 @@ export interface ParseraOptions {
 
   /**
    * Maximum time (in milliseconds) to wait for each API request
-   * If a request takes longer, it will be aborted and retried
+   * If a request takes longer, it is aborted and fails with `ParseraTimeoutError` without
+   * being retried, since the API may already have charged for it
    * @default 30000 (30 seconds)
    */
   timeout?: number;
@@ -86,6 +261,62 @@ export interface ParseraOptions {
    * @see ParseraRetryOptions
    */
   retryOptions?: ParseraRetryOptions;
+
+  /**
+   * Client-side rate limiting
+   * Pass a `RateLimiter` instance to share the same limits across several clients
+   * @default { requestsPerSecond: 10, burst: 1 }
+   * @see RateLimiterOptions
+   */
+  rateLimit?: RateLimiterOptions | RateLimiter;
+
+  /**
+   * Cache for extraction results, keyed by URL, attributes, mode, proxy country and cookies
+   * Pass `true` for an in-memory cache with default settings
+   * @default false
+   * @see ParseraCacheOptions
+   */
+  cache?: boolean | ParseraCacheOptions;
+
+  /**
+   * Custom fetch implementation used for every request
+   * Useful for runtimes without a global fetch, or to intercept requests in tests
+   * @default globalThis.fetch
+   */
+  fetch?: ParseraFetch;
+
+  /**
+   * Network settings: outbound proxy, keep-alive agent and extra default headers
+   * @see ParseraTransportOptions
+   */
+  transport?: ParseraTransportOptions;
+
+  /**
+   * Tracing and metrics hooks, compatible with OpenTelemetry tracers and meters
+   * @see ParseraTelemetryOptions
+   */
+  telemetry?: ParseraTelemetryOptions;
+
+  /**
+   * Maximum number of credits this client may consume, or budget options
+   * Calls that could exceed it throw `ParseraBudgetExceededError` without being sent
+   * @default no limit
+   */
+  budget?: number | ParseraBudgetOptions;
+
+  /**
+   * Extraction templates available to `extract({ template })`, besides the built-in ones
+   * Pass a `TemplateRegistry` instance to share the same templates across several clients
+   * @see TemplateRegistry
+   */
+  templates?: ExtractionTemplate[] | TemplateRegistry;
+
+  /**
+   * Post-processing applied to the rows of every `extract` call, in order
+   * @example [trimWhitespace(), resolveUrls(), dropEmptyRows()]
+   * @default []
+   */
+  transforms?: ParseraTransform[];
 }
 
 export interface ExtractOptions {
@@ -99,8 +330,17 @@ export interface ExtractOptions {
    * Attributes to extract from the webpage
    * Can be either an array of ParseraAttribute objects
    * or a Record of name-description pairs
+   * Required unless a `template` is given; replaces the template's attributes
    */
-  attributes: ParseraAttribute[] | Record<string, string>;
+  attributes?: ParseraAttribute[] | Record<string, string>;
+
+  /**
+   * Template providing the attributes, precision mode and proxy country
+   * A registered template as "name" (latest version) or "name@version", or a template object
+   * Options set on the call take precedence over the template's
+   * @example "product-listing" | "product-listing@2"
+   */
+  template?: string | ExtractionTemplate;
 
   /**
    * Country code for proxy server location
@@ -128,44 +368,149 @@ export interface ExtractOptions {
    * or if cancellation is needed
    */
   signal?: AbortSignal;
-}
 
-export type ParseraEventType =
-  | 'request:start'
-  | 'request:end'
-  | 'request:retry'
-  | 'request:error'
-  | 'extract:start'
-  | 'extract:complete'
-  | 'extract:error'
-  | 'rateLimit'
-  | 'timeout'
-  | string; // Allow custom event types
-
-export interface ParseraEvent<T = unknown> {
-  type: ParseraEventType;
-  timestamp: number;
-  data?: T;
-  error?: Error;
-  retryCount?: number;
+  /**
+   * Whether to use the client's cache for this request
+   * Set to false to always hit the API; the fresh result is still stored
+   * @default true
+   */
+  cache?: boolean;
+
+  /**
+   * Labels the credits of this call are counted under in `parsera.usage.byTag`
+   * @example ["nightly-sync", "customer:acme"]
+   */
+  tags?: string[];
+
+  /**
+   * Post-processing applied to the rows, replacing the client's `transforms` for this call
+   * Pass an empty array to get the rows as returned by the API
+   */
+  transforms?: ParseraTransform[];
+
+  /**
+   * Rules the rows must pass; the result then carries a `quality` report
+   * With `escalate`, failing standard mode rows are extracted again in precision mode
+   * @see QualityRules
+   */
+  quality?: QualityRules;
 }
 
-export type ParseraEventHandler<T = unknown> = (event: ParseraEvent<T>) => void | Promise<void>;
+export interface ParseOptions {
+  /**
+   * Raw content to extract data from
+   * Can be HTML or plain text
+   */
+  content: string;
+
+  /**
+   * Attributes to extract from the content
+   * Can be either an array of ParseraAttribute objects
+   * or a Record of name-description pairs
+   */
+  attributes: ParseraAttribute[] | Record<string, string>;
 
-export interface ParseraEventOptions {
   /**
-   * Whether to handle the event asynchronously
-   * When true, event handlers won't block the main execution
+   * Enable precision mode for more accurate extractions
+   * May increase processing time
    * @default false
    */
-  async?: boolean;
+  precisionMode?: boolean;
 
   /**
-   * Whether to catch errors in event handlers
-   * When true, errors in handlers won't affect the main execution
-   * @default true
+   * AbortSignal for request cancellation
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Labels the credits of this call are counted under in `parsera.usage.byTag`
+   */
+  tags?: string[];
+}
+
+export type ExtractMarkdownOptions = Pick<
+  ExtractOptions,
+  'url' | 'proxyCountry' | 'cookies' | 'signal' | 'tags'
+>;
+
+export interface ParseraMarkdownResult {
+  /** URL the markdown was extracted from */
+  url: string;
+  /** Cleaned page content as markdown */
+  markdown: string;
+  /** Proxy country the page was fetched through */
+  proxyCountry: string;
+  /** Time the extraction completed, in milliseconds since epoch */
+  extractedAt: number;
+}
+
+export interface TypedExtractOptions<S> extends Omit<ExtractOptions, 'attributes'> {
+  /**
+   * Shape of the rows to extract
+   * Can be either a zod object schema (descriptions set with `.describe()`)
+   * or a map of attribute names to their type and description
+   */
+  schema: S;
+}
+
+export interface ExtractManyUrlsInput extends Omit<ExtractOptions, 'url'> {
+  /**
+   * URLs to extract from, all sharing the same attributes and options
+   */
+  urls: string[];
+}
+
+export interface ExtractManyOptions {
+  /**
+   * Maximum number of extractions running at the same time
+   * @default 5
+   */
+  concurrency?: number;
+}
+
+export interface ExtractStreamUrlsInput extends Omit<ExtractOptions, 'url'> {
+  /**
+   * URLs to extract from, pulled one at a time, all sharing the same attributes and options
    */
-  catchErrors?: boolean;
+  urls: Iterable<string> | AsyncIterable<string>;
+}
+
+export interface ExtractStreamOptions extends ExtractManyOptions {
+  /**
+   * Stops pulling inputs and cancels the extractions in flight
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Rows returned by `extract`, with the quality report when `quality` rules were given
+ * The report is not enumerable, so it is left out of JSON and object spreads
+ */
+export type ParseraExtractResult = Record<string, string>[] & { readonly quality?: QualityReport };
+
+export type ParseraBatchResult =
+  | {
+      index: number;
+      input: ExtractOptions;
+      success: true;
+      data: Record<string, string>[];
+    }
+  | {
+      index: number;
+      input: ExtractOptions;
+      success: false;
+      error: Error;
+    };
+
+export interface ParseraBatchProgress {
+  /** Number of items processed so far */
+  completed: number;
+  /** Total number of items in the batch */
+  total: number;
+  /** Number of items that succeeded so far */
+  succeeded: number;
+  /** Number of items that failed so far */
+  failed: number;
 }
 
 export class Parsera {
@@ -173,11 +518,25 @@ export class Parsera {
   private readonly baseUrl: string;
   private readonly defaultProxyCountry: string;
   private readonly timeout: number;
-  private readonly retryOptions: Required<ParseraRetryOptions>;
-  private lastRequestTime: number = 0;
-  private readonly minRequestInterval: number = 100; // 100ms between requests
-  private readonly eventHandlers = new Map<ParseraEventType, Set<ParseraEventHandler<unknown>>>();
-  private readonly eventOptions = new Map<ParseraEventType, ParseraEventOptions>();
+  private readonly retryOptions: Required<Omit<ParseraRetryOptions, 'shouldRetry'>> &
+    Pick<ParseraRetryOptions, 'shouldRetry'>;
+  private readonly rateLimiter: RateLimiter;
+  private readonly cache?: { store: CacheStore; ttl: number };
+  private readonly middlewares: ParseraMiddleware[] = [];
+  private readonly fetchImpl: ParseraFetch;
+  private readonly transportInit: () => Promise<Record<string, unknown>>;
+  private readonly defaultHeaders: Record<string, string>;
+  private readonly telemetry: Telemetry;
+  private readonly credits: CreditTracker;
+  private readonly emitter = new ParseraEventEmitter();
+  /**
+   * Templates available to `extract({ template })`, including the built-in ones
+   */
+  readonly templates: TemplateRegistry;
+  private readonly transforms: ParseraTransform[];
+  private proxyCountries?: { countries: Promise<string[]>; expiresAt: number };
+  // Countries listed by the API; until then, any country is left to the API to accept
+  private knownProxyCountries?: readonly string[];
 
   /**
    * Creates a new Parsera client instance.
@@ -200,7 +559,15 @@ export class Parsera {
     baseUrl = 'https://api.parsera.org/v1',
     defaultProxyCountry = 'UnitedStates',
     timeout = 30000,
-    retryOptions = {}
+    retryOptions = {},
+    rateLimit = {},
+    cache = false,
+    fetch = globalFetch,
+    transport = {},
+    telemetry = {},
+    budget,
+    templates = [],
+    transforms = []
   }: ParseraOptions) {
     this.validateApiKey(apiKey);
     this.apiKey = apiKey;
@@ -210,13 +577,127 @@ export class Parsera {
     this.retryOptions = {
       maxRetries: retryOptions.maxRetries ?? 3,
       backoffFactor: retryOptions.backoffFactor ?? 2,
-      initialDelay: retryOptions.initialDelay ?? 1000
+      initialDelay: retryOptions.initialDelay ?? 1000,
+      maxDelay: retryOptions.maxDelay ?? 30000,
+      maxTotalDelay: retryOptions.maxTotalDelay ?? Infinity,
+      jitter: retryOptions.jitter ?? 'none',
+      retryableStatusCodes: retryOptions.retryableStatusCodes ?? [429, 502, 503, 504],
+      respectRetryAfter: retryOptions.respectRetryAfter ?? true,
+      shouldRetry: retryOptions.shouldRetry
+    };
+    this.rateLimiter = rateLimit instanceof RateLimiter ? rateLimit : new RateLimiter(rateLimit);
+    if (cache) {
+      const { store = new MemoryCacheStore(), ttl = 3600000 } = cache === true ? {} : cache;
+      this.cache = { store, ttl };
+    }
+    this.fetchImpl = fetch;
+    this.transportInit = createTransport(transport);
+    this.defaultHeaders = transport.headers ?? {};
+    this.telemetry = new Telemetry(telemetry);
+    this.credits = new CreditTracker(budget);
+    this.templates =
+      templates instanceof TemplateRegistry
+        ? templates
+        : new TemplateRegistry([...BUILT_IN_TEMPLATES, ...templates]);
+    this.transforms = transforms;
+  }
+
+  /**
+   * Credits consumed by this client, in total and per tag, with the remaining budget
+   */
+  get usage(): ParseraCreditUsage {
+    return this.credits.usage;
+  }
+
+  /**
+   * Resets the credit totals, e.g. at the start of a billing period
+   */
+  resetUsage(): void {
+    this.credits.reset();
+  }
+
+  /**
+   * Lists the countries accepted as `proxyCountry`, besides "random".
+   * The list is fetched from the API once and cached for a day, and `extract` then checks
+   * proxy countries against it. When the API cannot be reached, the last listed countries,
+   * or the bundled `PROXY_COUNTRIES` list, are returned and the lookup is retried a minute later.
+   *
+   * @param options - Set `refresh` to bypass the cached list
+   * @returns Country names, e.g. "UnitedStates"
+   * @throws {ParseraAuthError} When API key is rejected by the API; nothing is cached
+   *
+   * @example
+   * ```typescript
+   * const countries = await parsera.listProxyCountries();
+   * // ["Argentina", "Australia", ..., "UnitedStates"]
+   * ```
+   */
+  async listProxyCountries({ refresh = false }: { refresh?: boolean } = {}): Promise<string[]> {
+    let lookup = this.proxyCountries;
+    if (refresh || !lookup || lookup.expiresAt <= Date.now()) {
+      const countries: Promise<string[]> = this.fetchProxyCountries().then(
+        (list) => {
+          this.knownProxyCountries = list;
+          return list;
+        },
+        (error: unknown) => {
+          const current = this.proxyCountries?.countries === countries;
+          if (error instanceof ParseraAuthError) {
+            // A rejected key is not cached, so the next call tries again
+            if (current) this.proxyCountries = undefined;
+            throw error;
+          }
+          // The fallback is not used by `extract`, which keeps to the countries the API listed
+          if (current && this.proxyCountries) {
+            this.proxyCountries.expiresAt = Date.now() + PROXY_COUNTRIES_RETRY_DELAY;
+          }
+          return [...(this.knownProxyCountries ?? PROXY_COUNTRIES)];
+        }
+      );
+      lookup = { countries, expiresAt: Date.now() + PROXY_COUNTRIES_TTL };
+      this.proxyCountries = lookup;
+    }
+    return [...(await lookup.countries)];
+  }
+
+  private async fetchProxyCountries(): Promise<string[]> {
+    const release = await this.rateLimiter.acquire();
+    try {
+      return await fetchProxyCountries({
+        baseUrl: this.baseUrl,
+        apiKey: this.apiKey,
+        fetch: async (url, init = {}) => {
+          const response = await this.fetchWithTimeout(url, {
+            ...init,
+            headers: { ...this.defaultHeaders, ...(init.headers as Record<string, string>) }
+          });
+          if (!response.ok) await this.handleError(response);
+          return response;
+        }
+      });
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Fills the options left unset by the call from its template
+   */
+  private applyTemplate<T extends ExtractOptions>(options: T): T {
+    if (!options.template) return options;
+    const template = this.templates.resolve(options.template);
+    return {
+      ...options,
+      template: `${template.name}@${template.version}`,
+      attributes: options.attributes ?? template.attributes,
+      precisionMode: options.precisionMode ?? template.precisionMode,
+      proxyCountry: options.proxyCountry ?? template.proxyCountry
     };
   }
 
   private validateApiKey(apiKey: string): void {
     if (!apiKey || typeof apiKey !== 'string' || apiKey.length < 32) {
-      throw new Error('Invalid API key format');
+      throw new ParseraValidationError('Invalid API key format');
     }
   }
 
@@ -224,42 +705,38 @@ export class Parsera {
     try {
       new URL(url);
     } catch {
-      throw new Error('Invalid URL format');
+      throw new ParseraValidationError('Invalid URL format');
     }
   }
 
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-
-    if (timeSinceLastRequest < this.minRequestInterval) {
-      await new Promise((resolve) =>
-        setTimeout(resolve, this.minRequestInterval - timeSinceLastRequest)
-      );
-    }
-    this.lastRequestTime = Date.now();
-  }
-
   private async fetchWithTimeout(
     url: string,
     options: RequestInit & { timeout?: number }
   ): Promise<Response> {
-    const { timeout = this.timeout, ...fetchOptions } = options;
+    const { timeout = this.timeout, signal, ...fetchOptions } = options;
+
+    if (signal?.aborted) {
+      throw new ParseraAbortError();
+    }
 
+    const transportInit = await this.transportInit();
     const controller = new AbortController();
+    let timedOut = false;
     const timeoutId = setTimeout(() => {
+      timedOut = true;
       controller.abort();
     }, timeout);
 
-    if (options.signal) {
-      options.signal.addEventListener('abort', () => {
-        clearTimeout(timeoutId);
-        controller.abort();
-      });
-    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+    // Long-lived signals, such as a queue run's, are shared by many requests
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
-      const response = await fetch(url, {
+      const response = await this.fetchImpl(url, {
+        ...transportInit,
         ...fetchOptions,
         signal: controller.signal
       });
@@ -267,66 +744,251 @@ export class Parsera {
       return response;
     } catch (error) {
       clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
-        const timeoutError = new Error('Request timed out');
-        timeoutError.name = 'TimeoutError';
-        throw timeoutError;
+      if (signal?.aborted) {
+        throw new ParseraAbortError(undefined, { cause: error });
       }
-      throw error;
+      if (timedOut) {
+        throw new ParseraTimeoutError(undefined, { cause: error });
+      }
+      // Custom fetch implementations may fail with SDK errors directly
+      if (error instanceof ParseraBaseError) throw error;
+      const message = error instanceof Error ? error.message : 'Unknown network error';
+      throw new ParseraNetworkError(`Network request failed: ${message}`, { cause: error });
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
   private async retryableRequest(
-    requestFn: () => Promise<Response>,
-    retryCount = 0
+    context: ParseraRequestContext,
+    parentSpan?: ParseraSpan
   ): Promise<Response> {
-    try {
-      await this.enforceRateLimit();
-      const response = await requestFn();
-
-      if (response.status === 429 && retryCount < this.retryOptions.maxRetries) {
-        await this.emit('rateLimit', { retryCount });
-        await this.emit('request:retry', { retryCount });
+    const { signal } = context;
+    let totalDelay = 0;
+    let previousDelay = this.retryOptions.initialDelay;
 
-        const delay =
-          this.retryOptions.initialDelay * Math.pow(this.retryOptions.backoffFactor, retryCount);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-        return this.retryableRequest(requestFn, retryCount + 1);
-      }
+    for (let retryCount = 0; ; retryCount++) {
+      try {
+        const release = await this.rateLimiter.acquire(signal);
+        try {
+          return await this.sendAttempt(context, retryCount, parentSpan);
+        } finally {
+          release();
+        }
+      } catch (error) {
+        const parseraError =
+          error instanceof ParseraBaseError
+            ? error
+            : new ParseraBaseError(error instanceof Error ? error.message : 'Unknown error', {
+                cause: error
+              });
+        const attempt = retryCount + 1;
+        parseraError.attempts = attempt;
 
-      return response;
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          await this.emit('timeout', undefined, error);
+        if (parseraError instanceof ParseraRateLimitError) {
+          if (parseraError.retryAfter !== undefined) {
+            this.rateLimiter.pause(parseraError.retryAfter);
+          }
+          this.telemetry.recordRateLimit({ 'parsera.endpoint': context.path });
+          await this.emit('rateLimit', { retryCount, retryAfter: parseraError.retryAfter });
+        } else {
+          if (parseraError instanceof ParseraTimeoutError) {
+            await this.emit('timeout', undefined, parseraError);
+          }
+          await this.emit('request:error', undefined, parseraError);
         }
-        await this.emit('request:error', undefined, error);
-
-        if (retryCount < this.retryOptions.maxRetries && this.isRetryableError(error)) {
-          await this.emit('request:retry', { retryCount });
-          const delay =
-            this.retryOptions.initialDelay * Math.pow(this.retryOptions.backoffFactor, retryCount);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-          return this.retryableRequest(requestFn, retryCount + 1);
+
+        if (retryCount >= this.retryOptions.maxRetries) throw parseraError;
+
+        const retryable = this.retryOptions.shouldRetry
+          ? await this.retryOptions.shouldRetry(parseraError, attempt)
+          : this.isRetryableError(parseraError);
+        if (!retryable) throw parseraError;
+
+        let delay = computeRetryDelay(retryCount, this.retryOptions, previousDelay);
+        if (
+          this.retryOptions.respectRetryAfter &&
+          parseraError instanceof ParseraAPIError &&
+          parseraError.retryAfter !== undefined
+        ) {
+          delay = Math.max(delay, parseraError.retryAfter);
         }
+        if (totalDelay + delay > this.retryOptions.maxTotalDelay) throw parseraError;
+
+        totalDelay += delay;
+        previousDelay = delay;
+        this.telemetry.recordRetry({
+          'parsera.endpoint': context.path,
+          'error.type': parseraError.name
+        });
+        parentSpan?.setAttribute('parsera.retry_count', attempt);
+        const retryContext: ParseraRetryContext = {
+          error: parseraError,
+          attempt,
+          delay,
+          totalDelay
+        };
+        await this.emit('request:retry', retryContext, parseraError, attempt);
+        await this.wait(delay, signal);
       }
+    }
+  }
+
+  /**
+   * Sends a single HTTP request, traced as a child span of the calling operation
+   * Emits `request:start` and `request:end`, and throws on non-2xx responses
+   */
+  private async sendAttempt(
+    context: ParseraRequestContext,
+    retryCount: number,
+    parentSpan?: ParseraSpan
+  ): Promise<Response> {
+    const method = 'POST';
+    const url = `${context.baseUrl}${context.path}`;
+    const span = this.telemetry.startSpan(
+      `${method} ${context.path}`,
+      {
+        'http.request.method': method,
+        'url.full': url,
+        'http.request.resend_count': retryCount || undefined
+      },
+      parentSpan
+    );
+    const started = Date.now();
+    let status: number | undefined;
+    await this.emit('request:start', { method, url }, undefined, retryCount);
+
+    const finish = async (error?: Error) => {
+      const duration = Date.now() - started;
+      if (status !== undefined) span.setAttribute('http.response.status_code', status);
+      if (error) this.telemetry.failSpan(span, error);
+      span.end();
+      this.telemetry.recordRequest(duration, {
+        'parsera.endpoint': context.path,
+        'http.response.status_code': status,
+        'error.type': error?.name
+      });
+      await this.emit('request:end', { method, url, status, duration }, error, retryCount);
+    };
+
+    let response: Response;
+    try {
+      response = await this.fetchWithTimeout(url, {
+        method,
+        headers: context.headers,
+        body: JSON.stringify(context.body),
+        signal: context.signal
+      });
+      status = response.status;
+      if (!response.ok) {
+        await this.handleError(response);
+      }
+    } catch (error) {
+      await finish(error instanceof Error ? error : undefined);
       throw error;
     }
+    await finish();
+    return response;
   }
 
-  private isRetryableError(error: unknown): boolean {
-    if (error instanceof Error) {
-      const message = error.message.toLowerCase();
-      return (
-        message.includes('network') ||
-        message.includes('timeout') ||
-        message.includes('rate limit') ||
-        message.includes('too many requests') ||
-        message.includes('econnreset') ||
-        message.includes('socket hang up')
-      );
+  private wait(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new ParseraAbortError());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(new ParseraAbortError());
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Sends a JSON POST request to the API through the middleware chain
+   * Billable requests are charged only when they reach the API, not when a middleware answers them
+   */
+  private async post<T extends ParseraResponsePayload>(
+    path: string,
+    body: ParseraRequestPayload,
+    signal?: AbortSignal,
+    span?: ParseraSpan,
+    charge?: ParseraCharge
+  ): Promise<T> {
+    const context: ParseraRequestContext = {
+      path,
+      baseUrl: this.baseUrl,
+      headers: {
+        ...this.defaultHeaders,
+        'Content-Type': 'application/json',
+        'X-API-KEY': this.apiKey
+      },
+      body,
+      signal
+    };
+    const run = composeMiddleware(this.middlewares, (current) => this.send(current, span, charge));
+    return (await run(context)) as T;
+  }
+
+  /**
+   * Sends the request described by the context with retries, timeout and rate limiting
+   */
+  private async send(
+    context: ParseraRequestContext,
+    span?: ParseraSpan,
+    charge?: ParseraCharge
+  ): Promise<ParseraResponsePayload> {
+    const request = async () => {
+      const response = await this.retryableRequest(context, span);
+      return (await response.json()) as ParseraResponsePayload;
+    };
+    return charge ? this.charged(charge, request) : request();
+  }
+
+  /**
+   * Runs a billable request within the credit budget and records its cost
+   * The API-reported cost is used when present, otherwise the known cost of the mode
+   */
+  private async charged<T extends ParseraResponsePayload>(
+    { operation, cost, tags }: ParseraCharge,
+    request: () => Promise<T>
+  ): Promise<T> {
+    const release = this.credits.reserve(cost);
+    let response: T;
+    try {
+      response = await request();
+    } finally {
+      release();
     }
-    return false;
+
+    const credits = response.credits_used ?? cost;
+    const warning = this.credits.record(credits, tags);
+    await this.emit('credits:used', { operation, credits, total: this.credits.usage.total, tags });
+    if (warning) {
+      await this.emit('budget:warning', warning);
+    }
+    return response;
+  }
+
+  private toParseraError(error: unknown, prefix: string): ParseraBaseError {
+    if (error instanceof ParseraBaseError) return error;
+    return new ParseraBaseError(
+      `${prefix}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { cause: error }
+    );
+  }
+
+  private isRetryableError(error: unknown): boolean {
+    if (error instanceof ParseraNetworkError) return true;
+    return (
+      error instanceof ParseraAPIError &&
+      this.retryOptions.retryableStatusCodes.includes(error.status)
+    );
   }
 
   /**
@@ -340,20 +1002,50 @@ export class Parsera {
   }
 
   /**
-   * Registers an event handler for a specific event type
+   * Adds a middleware wrapping every API request made by this client.
+   * Middlewares run in registration order around the HTTP request (retries included)
+   * and can modify the outgoing body and headers, the parsed response,
+   * or return a response without calling `next()`.
+   *
+   * @param middleware - Function receiving the request context and `next`
+   * @returns The client, for chaining
    *
-   * @param eventType - Type of event to listen for
+   * @example
+   * ```typescript
+   * parsera
+   *     .use(async (context, next) => {
+   *         context.headers["traceparent"] = currentTraceParent();
+   *         return next();
+   *     })
+   *     .use(async (context, next) => {
+   *         const started = Date.now();
+   *         const response = await next();
+   *         console.log(`${context.path} took ${Date.now() - started}ms`);
+   *         return response;
+   *     });
+   * ```
+   */
+  use(middleware: ParseraMiddleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /**
+   * Registers an event handler for an event, a namespace (`'request:*'`) or every event (`'*'`)
+   * Handlers of declared events receive typed payloads; custom event names are accepted too
+   *
+   * @param eventType - Event name or pattern to listen for
    * @param handler - Function to handle the event
-   * @param options - Configuration options for event handling
+   * @param options - Configuration options for this handler
    *
    * @example
    * ```typescript
    * parsera.on('extract:complete', (event) => {
-   *     console.log(`Extraction completed with ${event.data.length} items`);
+   *     console.log(`Extraction completed with ${event.data?.data.length} items`);
    * });
    *
-   * parsera.on('request:retry', (event) => {
-   *     console.log(`Retrying request (attempt ${event.retryCount})`);
+   * parsera.on('request:*', (event) => {
+   *     if (event.type === 'request:end') console.log(`${event.data?.url} took ${event.data?.duration}ms`);
    * });
    *
    * // Custom event
@@ -362,91 +1054,114 @@ export class Parsera {
    * });
    * ```
    */
+  on<P extends ParseraEventName | ParseraEventPattern>(
+    eventType: P,
+    handler: ParseraTypedEventHandler<P>,
+    options?: ParseraEventOptions
+  ): void;
   on<T = unknown>(
     eventType: ParseraEventType,
     handler: ParseraEventHandler<T>,
+    options?: ParseraEventOptions
+  ): void;
+  on(
+    eventType: string,
+    handler: (event: never) => void | Promise<void>,
     options: ParseraEventOptions = {}
   ): void {
-    if (!this.eventHandlers.has(eventType)) {
-      this.eventHandlers.set(eventType, new Set());
-    }
-    this.eventHandlers.get(eventType)!.add(handler as ParseraEventHandler<unknown>);
-    this.eventOptions.set(eventType, {
-      async: options.async ?? false,
-      catchErrors: options.catchErrors ?? true
-    });
+    this.emitter.on(eventType, handler as ParseraEventHandler<unknown>, options);
   }
 
   /**
-   * Removes an event handler for a specific event type
+   * Registers an event handler removed after its first call
+   * @see on
    */
-  off<T = unknown>(eventType: ParseraEventType, handler: ParseraEventHandler<T>): void {
-    const handlers = this.eventHandlers.get(eventType);
-    if (handlers) {
-      handlers.delete(handler as ParseraEventHandler<unknown>);
-    }
+  once<P extends ParseraEventName | ParseraEventPattern>(
+    eventType: P,
+    handler: ParseraTypedEventHandler<P>,
+    options?: ParseraEventOptions
+  ): void;
+  once<T = unknown>(
+    eventType: ParseraEventType,
+    handler: ParseraEventHandler<T>,
+    options?: ParseraEventOptions
+  ): void;
+  once(
+    eventType: string,
+    handler: (event: never) => void | Promise<void>,
+    options: ParseraEventOptions = {}
+  ): void {
+    this.emitter.on(eventType, handler as ParseraEventHandler<unknown>, { ...options, once: true });
   }
 
   /**
-   * Removes all event handlers for a specific event type
+   * Removes an event handler registered with `on` or `once` under the same event name or pattern
+   */
+  off(eventType: ParseraEventType, handler: (event: never) => void | Promise<void>): void {
+    this.emitter.off(eventType, handler as ParseraEventHandler<unknown>);
+  }
+
+  /**
+   * Removes all event handlers for a specific event name or pattern, or every handler
    */
   removeAllListeners(eventType?: ParseraEventType): void {
-    if (eventType) {
-      this.eventHandlers.delete(eventType);
-    } else {
-      this.eventHandlers.clear();
-    }
+    this.emitter.removeAllListeners(eventType);
   }
 
-  private async emit<T = unknown>(
+  /**
+   * Iterates over events as they are emitted, buffering those not read yet
+   * The iteration ends when `signal` aborts or the loop is exited
+   *
+   * @param eventType - Event name or pattern to listen for
+   * @param options - AbortSignal ending the iteration
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * for await (const event of parsera.events('batch:*', { signal: controller.signal })) {
+   *     if (event.type === 'batch:progress') console.log(event.data?.completed);
+   *     if (event.type === 'batch:complete') break;
+   * }
+   * ```
+   */
+  events<P extends ParseraEventName | ParseraEventPattern>(
+    eventType: P,
+    options?: { signal?: AbortSignal }
+  ): AsyncIterableIterator<ParseraTypedEvent<ParseraEventsMatching<P>>>;
+  events<T = unknown>(
     eventType: ParseraEventType,
-    data?: T,
+    options?: { signal?: AbortSignal }
+  ): AsyncIterableIterator<ParseraEvent<T>>;
+  events(
+    eventType: string,
+    options: { signal?: AbortSignal } = {}
+  ): AsyncIterableIterator<ParseraEvent> {
+    return this.emitter.events(eventType, options);
+  }
+
+  private emit<K extends ParseraEventName>(
+    eventType: K,
+    data?: ParseraEventMap[K],
     error?: Error,
     retryCount?: number
   ): Promise<void> {
-    const handlers = this.eventHandlers.get(eventType);
-    const options = this.eventOptions.get(eventType) ?? { catchErrors: true, async: false };
-
-    if (!handlers?.size) return;
-
-    const event: ParseraEvent<T> = {
-      type: eventType,
-      timestamp: Date.now(),
-      ...(data !== undefined && { data }),
-      ...(error && { error }),
-      ...(retryCount !== undefined && { retryCount })
-    };
-
-    const handleEvent = async (handler: ParseraEventHandler<T>) => {
-      try {
-        await handler(event);
-      } catch (error) {
-        if (!options.catchErrors) {
-          throw error;
-        }
-      }
-    };
-
-    if (options.async) {
-      handlers.forEach((handler) => {
-        handleEvent(handler).catch(() => {});
-      });
-    } else {
-      await Promise.all(Array.from(handlers).map((handler) => handleEvent(handler)));
-    }
+    return this.emitter.emit(eventType, data, error, retryCount);
   }
 
   /**
    * Extracts data from a webpage using the Parsera API.
    *
    * @param options - Configuration options for the extraction
-   * @returns Promise resolving to an array of extracted data objects
+   * @returns Promise resolving to an array of extracted data objects,
+   * with a `quality` report when `quality` rules are given
    *
-   * @throws {Error} When API key is invalid
-   * @throws {Error} When URL is invalid
-   * @throws {Error} When request times out
-   * @throws {Error} When rate limit is exceeded (after retries)
-   * @throws {Error} When no data is found
+   * @throws {ParseraValidationError} When URL is invalid
+   * @throws {ParseraAuthError} When API key is rejected by the API
+   * @throws {ParseraTimeoutError} When request times out
+   * @throws {ParseraAbortError} When request is cancelled through `signal`
+   * @throws {ParseraRateLimitError} When rate limit is exceeded (after retries)
+   * @throws {ParseraNoDataError} When no data is found, in precision mode too when escalated
+   * @throws {ParseraAPIError} For any other non-2xx API response
    *
    * @example
    * ```typescript
@@ -466,7 +1181,7 @@ export class Parsera {
    *         { name: "title", description: "Extract the product title" },
    *         { name: "price", description: "Get the product price" }
    *     ],
-   *     proxyCountry: "GB",
+   *     proxyCountry: "UnitedKingdom",
    *     cookies: [
    *         { name: "session", value: "abc123", sameSite: "Lax" }
    *     ],
@@ -499,14 +1214,20 @@ export class Parsera {
    *     }
    * ]
    */
-  async extract({
-    url,
-    attributes,
-    proxyCountry,
-    cookies,
-    precisionMode,
-    signal
-  }: ExtractOptions): Promise<Record<string, string>[]> {
+  async extract(extractOptions: ExtractOptions): Promise<ParseraExtractResult> {
+    const options = this.applyTemplate(extractOptions);
+    const {
+      url,
+      attributes,
+      proxyCountry,
+      cookies,
+      precisionMode,
+      signal,
+      cache: useCache = true,
+      tags,
+      transforms = this.transforms,
+      quality
+    } = options;
     await this.emit('extract:start', {
       url,
       attributes,
@@ -516,12 +1237,25 @@ export class Parsera {
       signal
     });
 
-    this.validateUrl(url);
+    // The default country is checked like an explicit one
+    validateExtractOptions(
+      { ...options, proxyCountry: proxyCountry || this.defaultProxyCountry },
+      this.knownProxyCountries
+    );
 
-    try {
+    const operation = this.telemetry.startOperation('extract', {
+      'parsera.url.host': new URL(url).host,
+      'parsera.mode': precisionMode ? 'precision' : 'standard',
+      'parsera.proxy_country': proxyCountry || this.defaultProxyCountry,
+      'parsera.template': options.template as string | undefined
+    });
+
+    const run = async (precision: boolean): Promise<ParseraResponse> => {
       const requestBody: ParseraRequestBody = {
         url,
-        attributes: Array.isArray(attributes) ? attributes : this.convertToAttributes(attributes),
+        attributes: Array.isArray(attributes)
+          ? attributes
+          : this.convertToAttributes(attributes ?? {}),
         proxy_country: proxyCountry || this.defaultProxyCountry
       };
 
@@ -529,48 +1263,564 @@ export class Parsera {
         requestBody.cookies = cookies;
       }
 
-      if (precisionMode) {
+      if (precision) {
         requestBody.mode = 'precision';
       }
 
-      const response = await this.retryableRequest(() =>
-        this.fetchWithTimeout(`${this.baseUrl}/extract`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'X-API-KEY': this.apiKey
-          },
-          body: JSON.stringify(requestBody),
-          signal
-        })
+      const cacheKey = this.cache ? createCacheKey(requestBody) : undefined;
+      if (this.cache && cacheKey && useCache) {
+        const cached = (await this.cache.store.get(cacheKey)) as
+          | Record<string, string>[]
+          | undefined;
+        if (cached) {
+          operation.span.setAttribute('parsera.cache_hit', true);
+          await this.emit('cache:hit', { key: cacheKey, url });
+          return { data: await applyTransforms(cached, transforms, { url }) };
+        }
+        await this.emit('cache:miss', { key: cacheKey, url });
+      }
+
+      const cost = precision ? CREDIT_COSTS.precision : CREDIT_COSTS.standard;
+      const data = await this.post<ParseraResponse>(
+        '/extract',
+        requestBody,
+        signal,
+        operation.span,
+        {
+          operation: 'extract',
+          cost,
+          tags
+        }
       );
+      if (!data.data?.length) {
+        throw new ParseraNoDataError(data.message || undefined);
+      }
 
-      if (!response.ok) {
-        await this.handleError(response);
+      if (this.cache && cacheKey) {
+        await this.cache.store.set(cacheKey, data.data, this.cache.ttl);
       }
 
-      const data = (await response.json()) as ParseraResponse;
+      // The cache keeps the rows as returned by the API, so each call can transform them differently
+      return { ...data, data: await applyTransforms(data.data, transforms, { url }) };
+    };
+
+    const escalate = Boolean(quality?.escalate && !precisionMode);
+    try {
+      let response: ParseraResponse;
+      try {
+        response = await run(Boolean(precisionMode));
+      } catch (error) {
+        // No rows fail the rules like incomplete ones, so they are escalated too
+        if (!escalate || !(error instanceof ParseraNoDataError)) throw error;
+        response = { data: [] };
+      }
+      let report: QualityReport | undefined;
+      if (quality) {
+        report = checkQuality(response.data, quality, precisionMode ? 'precision' : 'standard');
+        if (!report.passed && escalate) {
+          await this.emit('quality:escalation', {
+            url,
+            report,
+            credits: CREDIT_COSTS.precision
+          });
+          try {
+            response = await run(true);
+            report = { ...checkQuality(response.data, quality, 'precision'), escalated: true };
+            operation.span.setAttribute('parsera.mode', 'precision');
+          } catch (error) {
+            // Standard rows are paid for, so they are kept along with the reason
+            if (error instanceof ParseraAbortError || !response.data.length) throw error;
+            report = {
+              ...report,
+              escalationError: this.toParseraError(error, 'Failed to escalate to precision mode')
+            };
+          }
+        }
+        operation.span.setAttributes({
+          'parsera.quality.passed': report.passed,
+          'parsera.quality.escalated': report.escalated
+        });
+      }
+
+      // Copied so the rows held by the cache never carry a report
+      const rows: ParseraExtractResult = report
+        ? Object.defineProperty([...response.data], 'quality', { value: report })
+        : response.data;
+      operation.span.setAttribute('parsera.rows', rows.length);
+      operation.end();
+      await this.emit('extract:complete', { ...response, data: rows, quality: report });
+      return rows;
+    } catch (error) {
+      const parseraError = this.toParseraError(error, 'Failed to extract data');
+      operation.end(parseraError);
+      await this.emit('extract:error', undefined, parseraError);
+      throw parseraError;
+    }
+  }
+
+  /**
+   * Extracts data from content you already have (HTML or text) using the Parsera API.
+   * No page is fetched, so proxy and cookie options do not apply.
+   *
+   * @param options - Content and attributes to extract
+   * @returns Promise resolving to an array of extracted data objects
+   *
+   * @throws {ParseraValidationError} When content is empty
+   * @throws {ParseraNoDataError} When no data is found
+   * @throws {ParseraAPIError} For any non-2xx API response
+   *
+   * @example
+   * ```typescript
+   * const results = await parsera.parse({
+   *     content: "<ul><li>Widget - $10</li><li>Gadget - $20</li></ul>",
+   *     attributes: {
+   *         name: "Product name",
+   *         price: "Product price"
+   *     }
+   * });
+   * ```
+   */
+  async parse({
+    content,
+    attributes,
+    precisionMode,
+    signal,
+    tags
+  }: ParseOptions): Promise<Record<string, string>[]> {
+    await this.emit('parse:start', { content, attributes, precisionMode, signal });
+
+    const operation = this.telemetry.startOperation('parse', {
+      'parsera.mode': precisionMode ? 'precision' : 'standard'
+    });
+
+    try {
+      if (!content?.trim()) {
+        throw new ParseraValidationError('Content must not be empty');
+      }
+
+      const requestBody: ParseraParseRequestBody = {
+        content,
+        attributes: Array.isArray(attributes) ? attributes : this.convertToAttributes(attributes)
+      };
+
+      if (precisionMode) {
+        requestBody.mode = 'precision';
+      }
+
+      const cost = precisionMode ? CREDIT_COSTS.precision : CREDIT_COSTS.standard;
+      const data = await this.post<ParseraResponse>('/parse', requestBody, signal, operation.span, {
+        operation: 'parse',
+        cost,
+        tags
+      });
       if (!data.data?.length) {
-        throw new Error(
-          data.message ||
-            'No data returned from Parsera API. Make sure the website contains the data and the attribute descriptions are clear.'
-        );
+        throw new ParseraNoDataError(data.message || undefined);
       }
 
-      await this.emit('extract:complete', data);
+      operation.span.setAttribute('parsera.rows', data.data.length);
+      operation.end();
+      await this.emit('parse:complete', data);
       return data.data;
     } catch (error) {
-      if (error instanceof Error) {
-        await this.emit('extract:error', undefined, error);
-        if (error.message === 'Request timed out') {
-          throw error;
-        }
-        throw new Error(`Failed to extract data: ${error.message}`);
+      const parseraError = this.toParseraError(error, 'Failed to parse content');
+      operation.end(parseraError);
+      await this.emit('parse:error', undefined, parseraError);
+      throw parseraError;
+    }
+  }
+
+  /**
+   * Fetches a webpage and returns its cleaned content as markdown.
+   * Useful as input for LLM pipelines.
+   *
+   * @param options - Page to fetch, with the same proxy and cookie options as `extract`
+   * @returns Promise resolving to the markdown and extraction metadata
+   *
+   * @throws {ParseraValidationError} When URL is invalid
+   * @throws {ParseraNoDataError} When the page has no content
+   * @throws {ParseraAPIError} For any non-2xx API response
+   *
+   * @example
+   * ```typescript
+   * const { markdown } = await parsera.extractMarkdown({
+   *     url: "https://example.com/blog/post",
+   *     proxyCountry: "Germany"
+   * });
+   * ```
+   */
+  async extractMarkdown({
+    url,
+    proxyCountry,
+    cookies,
+    signal,
+    tags
+  }: ExtractMarkdownOptions): Promise<ParseraMarkdownResult> {
+    await this.emit('markdown:start', { url, proxyCountry, cookies, signal });
+
+    this.validateUrl(url);
+
+    const country = proxyCountry || this.defaultProxyCountry;
+    const operation = this.telemetry.startOperation('extract_markdown', {
+      'parsera.url.host': new URL(url).host,
+      'parsera.proxy_country': country
+    });
+
+    try {
+      const requestBody: ParseraMarkdownRequestBody = { url, proxy_country: country };
+
+      if (cookies) {
+        requestBody.cookies = cookies;
+      }
+
+      const data = await this.post<ParseraMarkdownResponse>(
+        '/extract_markdown',
+        requestBody,
+        signal,
+        operation.span,
+        { operation: 'extract_markdown', cost: CREDIT_COSTS.standard, tags }
+      );
+      if (!data.markdown) {
+        throw new ParseraNoDataError(data.message || 'No markdown returned from Parsera API.');
+      }
+
+      const result: ParseraMarkdownResult = {
+        url,
+        markdown: data.markdown,
+        proxyCountry: country,
+        extractedAt: Date.now()
+      };
+      operation.end();
+      await this.emit('markdown:complete', result);
+      return result;
+    } catch (error) {
+      const parseraError = this.toParseraError(error, 'Failed to extract markdown');
+      operation.end(parseraError);
+      await this.emit('markdown:error', undefined, parseraError);
+      throw parseraError;
+    }
+  }
+
+  /**
+   * Extracts data from a webpage and coerces every row to the given schema.
+   * Attribute descriptions are derived from the schema, and rows that fail
+   * coercion are left out of `data` and listed in `report`.
+   *
+   * @param options - Extraction options with a `schema` instead of `attributes`
+   * @returns Promise resolving to the typed rows and a per-row report
+   *
+   * @example
+   * ```typescript
+   * const { data, report } = await parsera.extractTyped({
+   *     url: "https://example.com/products",
+   *     schema: z.object({
+   *         title: z.string().describe("Extract the product title"),
+   *         price: z.number().describe("Get the product price"),
+   *         inStock: z.boolean().optional().describe("Whether the product is in stock")
+   *     })
+   * });
+   *
+   * // Or with a typed attribute map
+   * const { data } = await parsera.extractTyped({
+   *     url: "https://example.com/products",
+   *     schema: {
+   *         title: { type: "string", description: "Extract the product title" },
+   *         price: { type: "number", description: "Get the product price" }
+   *     }
+   * });
+   * ```
+   */
+  async extractTyped<S extends z.AnyZodObject>(
+    options: TypedExtractOptions<S>
+  ): Promise<TypedExtractResult<z.infer<S>>>;
+  async extractTyped<M extends ParseraTypedAttributeMap>(
+    options: TypedExtractOptions<M>
+  ): Promise<TypedExtractResult<InferTypedAttributes<M>>>;
+  async extractTyped({
+    schema,
+    ...options
+  }: TypedExtractOptions<z.AnyZodObject | ParseraTypedAttributeMap>): Promise<
+    TypedExtractResult<unknown>
+  > {
+    const objectSchema = schema instanceof z.ZodObject ? schema : typedAttributesToSchema(schema);
+    const rows = await this.extract({ ...options, attributes: schemaToAttributes(objectSchema) });
+    return coerceRows(rows, objectSchema);
+  }
+
+  /**
+   * Extracts data from many webpages with a bounded number of concurrent requests.
+   * A failing item never rejects the batch; each item reports its own outcome.
+   * Emits `batch:progress` after every item and `batch:complete` at the end.
+   *
+   * @param inputs - A list of extraction options, or a list of URLs with shared options
+   * @param options - Batch configuration
+   * @returns Promise resolving to one result per input, in input order
+   *
+   * @example
+   * ```typescript
+   * parsera.on<ParseraBatchProgress>('batch:progress', (event) => {
+   *     console.log(`${event.data?.completed}/${event.data?.total}`);
+   * });
+   *
+   * const results = await parsera.extractMany(
+   *     {
+   *         urls: ["https://example.com/a", "https://example.com/b"],
+   *         attributes: { title: "Extract the title" }
+   *     },
+   *     { concurrency: 10 }
+   * );
+   *
+   * for (const result of results) {
+   *     if (result.success) {
+   *         console.log(result.input.url, result.data);
+   *     } else {
+   *         console.error(result.input.url, result.error.message);
+   *     }
+   * }
+   * ```
+   */
+  async extractMany(
+    inputs: ExtractOptions[] | ExtractManyUrlsInput,
+    { concurrency = 5 }: ExtractManyOptions = {}
+  ): Promise<ParseraBatchResult[]> {
+    let items: ExtractOptions[];
+    if (Array.isArray(inputs)) {
+      items = inputs;
+    } else {
+      const { urls, ...shared } = inputs;
+      items = urls.map((url) => ({ ...shared, url }));
+    }
+
+    const progress: ParseraBatchProgress = {
+      completed: 0,
+      total: items.length,
+      succeeded: 0,
+      failed: 0
+    };
+
+    const results = await mapWithConcurrency(items, concurrency, async (input, index) => {
+      const result = await this.extractItem(input, index);
+      progress[result.success ? 'succeeded' : 'failed']++;
+      progress.completed++;
+      await this.emit('batch:progress', { ...progress });
+      return result;
+    });
+
+    await this.emit('batch:complete', { ...progress });
+    return results;
+  }
+
+  /**
+   * Extracts data from webpages pulled lazily from an iterable or async iterable,
+   * yielding each result as soon as it completes.
+   * At most `concurrency` extractions run at a time, and the next input is only pulled
+   * once a result has been consumed, so a slow consumer never piles up results.
+   * A failing item is yielded as a failed result; breaking out of the loop cancels the
+   * extractions in flight.
+   *
+   * @param inputs - Extraction options, or URLs with shared options
+   * @param options - Concurrency and cancellation
+   * @returns An async generator yielding one result per input, in completion order
+   * @throws {ParseraAbortError} When `signal` is aborted
+   *
+   * @example
+   * ```typescript
+   * async function* readUrls(path: string) {
+   *     for await (const line of readline.createInterface({ input: fs.createReadStream(path) })) {
+   *         if (line.trim()) yield line.trim();
+   *     }
+   * }
+   *
+   * for await (const result of parsera.extractStream(
+   *     { urls: readUrls("urls.txt"), attributes: { title: "Extract the title" } },
+   *     { concurrency: 10, signal: controller.signal }
+   * )) {
+   *     if (result.success) {
+   *         await db.insert(result.input.url, result.data);
+   *     } else {
+   *         console.error(result.input.url, result.error.message);
+   *     }
+   * }
+   * ```
+   */
+  async *extractStream(
+    inputs: Iterable<ExtractOptions> | AsyncIterable<ExtractOptions> | ExtractStreamUrlsInput,
+    { concurrency = 5, signal }: ExtractStreamOptions = {}
+  ): AsyncGenerator<ParseraBatchResult> {
+    let items: Iterable<ExtractOptions> | AsyncIterable<ExtractOptions>;
+    if (Symbol.iterator in inputs || Symbol.asyncIterator in inputs) {
+      items = inputs;
+    } else {
+      const { urls, ...shared } = inputs;
+      items = (async function* () {
+        for await (const url of urls) yield { ...shared, url };
+      })();
+    }
+
+    // Aborted by `signal`, or when the consumer stops early
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) throw new ParseraAbortError();
+    signal?.addEventListener('abort', abort);
+
+    const extractItem = (input: ExtractOptions, index: number) => {
+      // Keep the item's own signal working alongside the stream's
+      const itemController = new AbortController();
+      const abortItem = () => itemController.abort();
+      if (input.signal?.aborted) abortItem();
+      input.signal?.addEventListener('abort', abortItem);
+      controller.signal.addEventListener('abort', abortItem);
+      return this.extractItem(input, index, itemController.signal).finally(() => {
+        input.signal?.removeEventListener('abort', abortItem);
+        controller.signal.removeEventListener('abort', abortItem);
+      });
+    };
+
+    try {
+      for await (const result of streamWithConcurrency(
+        items,
+        concurrency,
+        extractItem,
+        controller.signal
+      )) {
+        if (signal?.aborted) break;
+        yield result;
       }
-      throw new Error('Failed to extract data: Unknown error');
+      if (signal?.aborted) throw new ParseraAbortError();
+    } finally {
+      signal?.removeEventListener('abort', abort);
+      controller.abort();
     }
   }
 
+  private async extractItem(
+    input: ExtractOptions,
+    index: number,
+    signal = input.signal
+  ): Promise<ParseraBatchResult> {
+    try {
+      const data = await this.extract({ ...input, signal });
+      return { index, input, success: true, data };
+    } catch (error) {
+      return {
+        index,
+        input,
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error))
+      };
+    }
+  }
+
+  /**
+   * Extracts items from a paginated listing, following pages one by one.
+   * Rows are deduplicated across pages and yielded as each page completes.
+   * Emits `crawl:page` for every page and `crawl:complete` at the end.
+   *
+   * @param options - Start URL, item attributes and pagination strategy
+   * @returns An async generator yielding the new rows of each page
+   *
+   * @example
+   * ```typescript
+   * // Follow an extracted "next page" link
+   * for await (const page of parsera.crawl({
+   *     url: "https://example.com/products",
+   *     attributes: { title: "Product title", price: "Product price" },
+   *     pagination: { type: "nextLink" },
+   *     maxPages: 5,
+   *     dedupeBy: "title"
+   * })) {
+   *     console.log(`Page ${page.page}: ${page.data.length} items`);
+   * }
+   *
+   * // Or generate page URLs from a template
+   * const pages = parsera.crawl({
+   *     url: "https://example.com/products",
+   *     attributes: { title: "Product title" },
+   *     pagination: { type: "template", template: "https://example.com/products?page={page}" },
+   *     maxItems: 100
+   * });
+   * ```
+   */
+  async *crawl(options: CrawlOptions): AsyncGenerator<CrawlPage> {
+    let pages = 0;
+    let items = 0;
+    const crawlOptions = this.applyTemplate(options);
+    for await (const page of crawl(
+      (extractOptions) => this.extract(extractOptions),
+      crawlOptions
+    )) {
+      pages++;
+      items += page.data.length;
+      await this.emit('crawl:page', page);
+      yield page;
+    }
+    await this.emit('crawl:complete', { url: options.url, pages, items });
+  }
+
+  /**
+   * Creates a monitor that re-runs an extraction and reports changes between runs.
+   * Rows are matched across runs by `key`; differences are emitted on this client as
+   * `monitor:added`, `monitor:removed` and `monitor:changed` events.
+   *
+   * @param options - Extraction to monitor, row key, interval and snapshot store
+   * @returns A monitor to `check()` once or `start()` on an interval
+   *
+   * @example
+   * ```typescript
+   * const monitor = parsera.monitor({
+   *     id: "competitor-prices",
+   *     extract: {
+   *         url: "https://example.com/products",
+   *         attributes: { sku: "Product SKU", price: "Product price", stock: "Stock status" }
+   *     },
+   *     key: "sku",
+   *     interval: 60 * 60 * 1000,
+   *     store: new FileSnapshotStore({ directory: ".parsera-snapshots" })
+   * });
+   *
+   * parsera.on<MonitorChangeEvent>("monitor:changed", (event) => {
+   *     console.log(event.data?.key, event.data?.changes);
+   * });
+   *
+   * monitor.start();
+   * ```
+   */
+  monitor(options: MonitorOptions): Monitor {
+    return new Monitor(options, {
+      extract: (extractOptions) => this.extract(extractOptions),
+      emit: (eventType, data, error) => this.emitter.emit(eventType, data, error)
+    });
+  }
+
+  /**
+   * Creates a persistent queue for large extraction runs.
+   * Job state and results are written to an append-only log, so a run stopped by
+   * a crash or a deploy resumes where it left off instead of starting over.
+   *
+   * @param options - Log path, concurrency and retry limit
+   * @returns The queue, resumed from its log if it exists
+   *
+   * @example
+   * ```typescript
+   * const queue = parsera.queue({ path: "jobs/products.ndjson", concurrency: 10 });
+   *
+   * // Already queued URLs are skipped, so this is safe to run again after a restart
+   * await queue.add({ urls, attributes: { title: "Product title", price: "Product price" } });
+   *
+   * parsera.on("queue:progress", (event) => {
+   *     console.log(`${event.data?.done}/${event.data?.total} done, ${event.data?.failed} failed`);
+   * });
+   * await queue.run();
+   *
+   * await writeCsv(queue.results(), "products.csv", { includeUrl: true });
+   * ```
+   */
+  queue(options: ExtractionQueueOptions): ExtractionQueue {
+    return new ExtractionQueue(options, {
+      extract: (extractOptions) => this.extract(extractOptions),
+      emit: (eventType, data, error) => this.emitter.emit(eventType, data, error)
+    });
+  }
+
   /**
    * Alias for extract method to match Python library interface.
    *
@@ -607,17 +1857,39 @@ export class Parsera {
 
   private async handleError(response: Response): Promise<never> {
     const status = response.status;
-    const errorData = (await response.json()) as ParseraError;
+    const errorData = (await response.json().catch(() => undefined)) as ParseraError | undefined;
+    const details = {
+      status,
+      code: errorData?.code,
+      retryAfter: parseRetryAfter(response.headers?.get('retry-after'))
+    };
 
     switch (status) {
       case 401:
-        throw new Error('Invalid Parsera API key. Please check your credentials.');
+      case 403:
+        throw new ParseraAuthError(
+          'Invalid Parsera API key. Please check your credentials.',
+          details
+        );
       case 429:
-        throw new Error('Rate limit exceeded. Please try again later.');
+        throw new ParseraRateLimitError('Rate limit exceeded. Please try again later.', details);
       case 400:
-        throw new Error(`Bad request: ${errorData?.message || 'Unknown error'}`);
+      case 422:
+        throw new ParseraBadRequestError(
+          `Bad request: ${errorData?.message || 'Unknown error'}`,
+          details
+        );
       default:
-        throw new Error(`Parsera API error: ${errorData?.message || response.statusText}`);
+        if (status >= 500) {
+          throw new ParseraServerError(
+            `Parsera API error: ${errorData?.message || response.statusText}`,
+            details
+          );
+        }
+        throw new ParseraAPIError(
+          `Parsera API error: ${errorData?.message || response.statusText}`,
+          details
+        );
     }
   }
 }
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { ParseraNoDataError, ParseraServerError } from '../errors/parsera.js';
+import { ParseraEvent } from './events.js';
+import { MockParsera } from './mock.js';
+import { checkQuality } from './quality.js';
+
+const attributes = { name: 'Product name', price: 'Product price' };
+
+describe('checkQuality', () => {
+  it('should report failed rules with the failing rows', () => {
+    const report = checkQuality(
+      [
+        { name: 'Widget', price: '$10' },
+        { name: ' ', price: 'Call us' },
+        { name: 'Gadget', price: '' }
+      ],
+      { required: ['name'], minRows: 5, match: { price: /\d/g } }
+    );
+
+    expect(report).toEqual({
+      passed: false,
+      rows: 3,
+      completeness: { name: 2 / 3, price: 2 / 3 },
+      issues: [
+        { rule: 'minRows', message: 'Expected at least 5 rows, got 3' },
+        {
+          rule: 'required',
+          attribute: 'name',
+          rows: [1],
+          message: '"name" is empty in 1 of 3 rows'
+        },
+        {
+          rule: 'match',
+          attribute: 'price',
+          rows: [1],
+          message: '"price" does not match in 1 of 3 rows'
+        }
+      ],
+      mode: 'standard',
+      escalated: false
+    });
+  });
+
+  it('should accept predicates and pass complete rows', () => {
+    const rows = [
+      { name: 'Widget', price: '10' },
+      { name: 'Gadget', price: '20' }
+    ];
+
+    const report = checkQuality(rows, {
+      required: ['name', 'price'],
+      match: { price: (value, row) => Number(value) > 0 && row.name !== '' }
+    });
+
+    expect(report.passed).toBe(true);
+    expect(report.issues).toEqual([]);
+    expect(checkQuality(rows, { required: ['sku'] }).completeness.sku).toBe(0);
+  });
+});
+
+describe('Parsera quality', () => {
+  it('should attach the report without changing the rows', async () => {
+    const parsera = new MockParsera().reply({ data: [{ name: 'Widget', price: '' }] });
+
+    const rows = await parsera.extract({
+      url: 'https://example.com',
+      attributes,
+      quality: { required: ['price'] }
+    });
+
+    expect(rows).toEqual([{ name: 'Widget', price: '' }]);
+    expect(JSON.stringify(rows)).toBe('[{"name":"Widget","price":""}]');
+    expect(rows.quality?.passed).toBe(false);
+    expect(parsera.requests).toHaveLength(1);
+  });
+
+  it('should escalate failing standard rows to precision mode', async () => {
+    const parsera = new MockParsera()
+      .reply({ data: [{ name: 'Widget', price: '' }] })
+      .reply({ data: [{ name: 'Widget', price: '$10' }] });
+    const events: ParseraEvent[] = [];
+    parsera.on('quality:*', (event) => {
+      events.push(event);
+    });
+
+    const rows = await parsera.extract({
+      url: 'https://example.com',
+      attributes,
+      quality: { required: ['price'], escalate: true }
+    });
+
+    expect(rows).toEqual([{ name: 'Widget', price: '$10' }]);
+    expect(rows.quality).toMatchObject({ passed: true, mode: 'precision', escalated: true });
+    expect(parsera.requests.map((request) => request.body)).toMatchObject([
+      { url: 'https://example.com' },
+      { url: 'https://example.com', mode: 'precision' }
+    ]);
+    expect(events).toHaveLength(1);
+    expect(events[0].data).toMatchObject({
+      url: 'https://example.com',
+      credits: 10,
+      report: { passed: false, mode: 'standard' }
+    });
+    expect(parsera.usage.total).toBe(11);
+  });
+
+  it('should escalate standard extractions that return no rows', async () => {
+    const parsera = new MockParsera()
+      .reply({ data: [] })
+      .reply({ data: [{ name: 'Widget', price: '$10' }] });
+
+    const rows = await parsera.extract({
+      url: 'https://example.com',
+      attributes,
+      quality: { escalate: true }
+    });
+
+    expect(rows).toEqual([{ name: 'Widget', price: '$10' }]);
+    expect(rows.quality).toMatchObject({ passed: true, mode: 'precision', escalated: true });
+    expect(parsera.requests).toHaveLength(2);
+  });
+
+  it('should keep the standard rows when the precision re-run fails', async () => {
+    const parsera = new MockParsera({ retryOptions: { maxRetries: 0, initialDelay: 0 } })
+      .reply({ data: [{ name: 'Widget', price: '' }] })
+      .reply({ status: 500 })
+      .reply({ data: [] })
+      .reply({ data: [] });
+    const quality = { required: ['price'], escalate: true };
+
+    const rows = await parsera.extract({ url: 'https://example.com', attributes, quality });
+
+    expect(rows).toEqual([{ name: 'Widget', price: '' }]);
+    expect(rows.quality).toMatchObject({ passed: false, mode: 'standard', escalated: false });
+    expect(rows.quality?.escalationError).toBeInstanceOf(ParseraServerError);
+
+    // Without standard rows there is nothing to keep
+    await expect(
+      parsera.extract({ url: 'https://example.com', attributes, quality })
+    ).rejects.toThrow(ParseraNoDataError);
+    expect(parsera.requests).toHaveLength(4);
+  });
+
+  it('should not escalate passing or precision mode extractions', async () => {
+    const parsera = new MockParsera().reply({ data: [{ name: 'Widget', price: '' }], times: 2 });
+
+    await parsera.extract({
+      url: 'https://example.com',
+      attributes,
+      quality: { required: ['name'], escalate: true }
+    });
+    const rows = await parsera.extract({
+      url: 'https://example.com',
+      attributes,
+      precisionMode: true,
+      quality: { required: ['price'], escalate: true }
+    });
+
+    expect(rows.quality).toMatchObject({ passed: false, mode: 'precision', escalated: false });
+    expect(parsera.requests).toHaveLength(2);
+  });
+
+  it('should reject invalid rules', async () => {
+    const parsera = new MockParsera();
+
+    await expect(
+      parsera.extract({
+        url: 'https://example.com',
+        attributes,
+        quality: { minRows: -1, match: { price: 'digits' as unknown as RegExp } }
+      })
+    ).rejects.toThrow('quality.match.price: Expected a RegExp or a predicate function');
+    expect(parsera.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,140 @@
+import type { ParseraBaseError } from '../errors/parsera.js';
+
+/**
+ * Accepts a non-empty value of an attribute: a pattern it must match or a predicate
+ */
+export type QualityMatcher = RegExp | ((value: string, row: Record<string, string>) => boolean);
+
+export interface QualityRules {
+  /**
+   * Attributes that must have a non-empty value in every row
+   */
+  required?: string[];
+
+  /**
+   * Minimum number of rows
+   * @default 1
+   */
+  minRows?: number;
+
+  /**
+   * Pattern or predicate per attribute, checked against its non-empty values
+   * @example { price: /\d/, url: (value) => value.startsWith("https://") }
+   */
+  match?: Record<string, QualityMatcher>;
+
+  /**
+   * Re-runs a standard mode extraction in precision mode when its rows fail the rules,
+   * no rows at all included. The re-run costs precision mode credits on top of the standard ones
+   * @default false
+   */
+  escalate?: boolean;
+}
+
+export interface QualityIssue {
+  /** Rule that failed */
+  rule: 'minRows' | 'required' | 'match';
+  /** Attribute the rule applies to */
+  attribute?: string;
+  /** Indexes of the failing rows */
+  rows?: number[];
+  /** Human-readable description */
+  message: string;
+}
+
+export interface QualityReport {
+  /** Whether the rows pass every rule */
+  passed: boolean;
+  /** Number of rows checked */
+  rows: number;
+  /** Share of rows with a non-empty value, per attribute, from 0 to 1 */
+  completeness: Record<string, number>;
+  /** Failed rules; empty when passed */
+  issues: QualityIssue[];
+  /** Mode of the extraction the report describes */
+  mode: 'standard' | 'precision';
+  /** Whether the rows come from a precision mode re-run after standard rows failed */
+  escalated: boolean;
+  /** Why the precision mode re-run failed; the report and rows are then the standard ones */
+  escalationError?: ParseraBaseError;
+}
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || String(value).trim() === '';
+
+const matches = (matcher: QualityMatcher, value: string, row: Record<string, string>): boolean => {
+  if (typeof matcher === 'function') return matcher(value, row);
+  // Global and sticky patterns keep their position between calls
+  matcher.lastIndex = 0;
+  return matcher.test(value);
+};
+
+const describeRows = (rows: number[], total: number): string =>
+  rows.length === total ? 'all rows' : `${rows.length} of ${total} rows`;
+
+/**
+ * Checks extracted rows against quality rules
+ * @param rows - Rows to check
+ * @param rules - Rules the rows must pass
+ * @param mode - Mode of the extraction, recorded in the report
+ */
+export const checkQuality = (
+  rows: Record<string, string>[],
+  { required = [], minRows = 1, match = {} }: QualityRules,
+  mode: QualityReport['mode'] = 'standard'
+): QualityReport => {
+  const issues: QualityIssue[] = [];
+
+  if (rows.length < minRows) {
+    issues.push({
+      rule: 'minRows',
+      message: `Expected at least ${minRows} rows, got ${rows.length}`
+    });
+  }
+
+  const failing = (check: (row: Record<string, string>) => boolean): number[] =>
+    rows.flatMap((row, index) => (check(row) ? [] : [index]));
+
+  for (const attribute of required) {
+    const failed = failing((row) => !isEmpty(row[attribute]));
+    if (failed.length) {
+      issues.push({
+        rule: 'required',
+        attribute,
+        rows: failed,
+        message: `"${attribute}" is empty in ${describeRows(failed, rows.length)}`
+      });
+    }
+  }
+
+  for (const [attribute, matcher] of Object.entries(match)) {
+    const failed = failing(
+      (row) => isEmpty(row[attribute]) || matches(matcher, String(row[attribute]), row)
+    );
+    if (failed.length) {
+      issues.push({
+        rule: 'match',
+        attribute,
+        rows: failed,
+        message: `"${attribute}" does not match in ${describeRows(failed, rows.length)}`
+      });
+    }
+  }
+
+  const attributes = new Set([...rows.flatMap((row) => Object.keys(row)), ...required]);
+  const completeness = Object.fromEntries(
+    [...attributes].map((attribute) => [
+      attribute,
+      rows.length ? rows.filter((row) => !isEmpty(row[attribute])).length / rows.length : 0
+    ])
+  );
+
+  return {
+    passed: issues.length === 0,
+    rows: rows.length,
+    completeness,
+    issues,
+    mode,
+    escalated: false
+  };
+};
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { getEventListeners } from 'node:events';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ParseraAbortError, ParseraAuthError, ParseraValidationError } from '../errors/parsera.js';
+import { MockParsera } from './mock.js';
+import type { QueueResult } from './queue.js';
+import { trimWhitespace } from './transforms.js';
+
+const attributes = { title: 'Extract the title' };
+
+const collect = async (results: AsyncIterable<QueueResult>) => {
+  const items: QueueResult[] = [];
+  for await (const result of results) items.push(result);
+  return items;
+};
+
+describe('ExtractionQueue', () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'parsera-queue-'));
+    path = join(directory, 'jobs.ndjson');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const client = () => new MockParsera({ retryOptions: { maxRetries: 0, initialDelay: 0 } });
+
+  it('should process jobs and read results back from the log', async () => {
+    const parsera = client().reply({ data: [{ title: 'A' }], times: Infinity });
+    const progress: unknown[] = [];
+    parsera.on('queue:progress', (event) => {
+      progress.push(event.data?.done);
+    });
+
+    const queue = parsera.queue({ path, concurrency: 1 });
+    expect(await queue.add({ urls: ['https://a.com', 'https://b.com'], attributes })).toBe(2);
+
+    expect(await queue.run()).toEqual({ total: 2, pending: 0, running: 0, done: 2, failed: 0 });
+    expect(progress).toEqual([1, 2]);
+    const results = await collect(queue.results());
+    expect(results.map(({ url, data }) => ({ url, data }))).toEqual([
+      { url: 'https://a.com', data: [{ title: 'A' }] },
+      { url: 'https://b.com', data: [{ title: 'A' }] }
+    ]);
+  });
+
+  it('should resume from the log without extracting finished jobs again', async () => {
+    const first = client()
+      .reply({ match: { url: 'https://a.com' }, data: [{ title: 'A' }] })
+      .reply({ match: { url: 'https://b.com' }, status: 401 });
+    const queue = first.queue({ path, concurrency: 1 });
+    await queue.add({ urls: ['https://a.com', 'https://b.com'], attributes });
+    // The run stops at b.com, as a crash would
+    await expect(queue.run()).rejects.toThrow(ParseraAuthError);
+
+    const second = client().reply({ data: [{ title: 'B' }] });
+    const resumed = second.queue({ path });
+    expect(await resumed.add({ urls: ['https://a.com', 'https://b.com'], attributes })).toBe(0);
+    expect(resumed.progress).toMatchObject({ pending: 1, done: 1 });
+
+    await resumed.run();
+    expect(second.requests.map((request) => request.body)).toEqual([
+      expect.objectContaining({ url: 'https://b.com' })
+    ]);
+    expect(await collect(resumed.results())).toHaveLength(2);
+  });
+
+  it('should take transforms and quality rules from the queue, not the log', async () => {
+    const quality = { match: { price: /^\d+$/ }, required: ['price'], escalate: true };
+    const first = client().reply({ status: 401 });
+    const queue = first.queue({ path, transforms: [trimWhitespace()], quality });
+    await expect(
+      queue.add({ urls: ['https://a.com'], attributes, transforms: [trimWhitespace()] } as never)
+    ).rejects.toThrow(ParseraValidationError);
+    await expect(
+      queue.add([{ url: 'https://a.com', attributes, quality } as never])
+    ).rejects.toThrow(ParseraValidationError);
+    await queue.add({ urls: ['https://a.com'], attributes });
+    await expect(queue.run()).rejects.toThrow(ParseraAuthError);
+    expect(await readFile(path, 'utf8')).not.toContain('transforms');
+
+    // Standard rows miss the price, so the rules escalate to precision mode
+    const second = client()
+      .reply({ data: [{ title: ' A ' }] })
+      .reply({ data: [{ title: ' A ', price: ' 10 ' }] });
+    const resumed = second.queue({ path, transforms: [trimWhitespace()], quality });
+    expect(await resumed.run()).toMatchObject({ done: 1, failed: 0 });
+    const [result] = await collect(resumed.results());
+    expect(second.requests).toHaveLength(2);
+    expect(result.data).toEqual([{ title: 'A', price: '10' }]);
+  });
+
+  it('should send cookies from the queue and keep them out of the log', async () => {
+    const cookies = [{ name: 'session', value: 'secret-token', sameSite: 'Lax' as const }];
+    const parsera = client().reply({ data: [{ title: 'A' }] });
+    const queue = parsera.queue({ path, cookies });
+    await expect(
+      queue.add({ urls: ['https://a.com'], attributes, cookies } as never)
+    ).rejects.toThrow(ParseraValidationError);
+    await queue.add({ urls: ['https://a.com'], attributes });
+
+    expect(await queue.run()).toMatchObject({ done: 1 });
+    expect(parsera.requests[0].body).toMatchObject({ cookies });
+    expect(await readFile(path, 'utf8')).not.toContain('secret-token');
+  });
+
+  it('should retry failed jobs up to maxAttempts and skip non-retryable errors', async () => {
+    const parsera = client()
+      .reply({ match: { url: 'https://flaky.com' }, status: 500, times: 2 })
+      .reply({ match: { url: 'https://flaky.com' }, data: [{ title: 'Flaky' }] })
+      .reply({ match: { url: 'https://down.com' }, status: 500, times: Infinity })
+      .reply({ match: { url: 'https://empty.com' }, data: [], times: Infinity });
+
+    const queue = parsera.queue({ path, concurrency: 1, maxAttempts: 3 });
+    await queue.add({
+      urls: ['https://flaky.com', 'https://down.com', 'https://empty.com'],
+      attributes
+    });
+
+    expect(await queue.run()).toMatchObject({ done: 1, failed: 2 });
+    const failed = await queue.list('failed');
+    expect(failed.map(({ id, attempts }) => ({ id, attempts }))).toEqual([
+      { id: 'https://down.com', attempts: 3 },
+      { id: 'https://empty.com', attempts: 1 }
+    ]);
+    expect(failed[1].error?.name).toBe('ParseraNoDataError');
+  });
+
+  it('should requeue failed jobs on retryFailed', async () => {
+    const parsera = client().reply({ status: 500, times: 2 });
+    const queue = parsera.queue({ path, maxAttempts: 2 });
+    await queue.add([{ id: 'home', url: 'https://a.com', attributes }]);
+    await queue.run();
+    expect(queue.progress.failed).toBe(1);
+
+    parsera.reply({ data: [{ title: 'A' }] });
+    expect(await queue.retryFailed()).toBe(1);
+    expect(await queue.run()).toMatchObject({ done: 1, failed: 0 });
+    expect((await collect(queue.results()))[0].id).toBe('home');
+  });
+
+  it('should stop on fatal errors and keep the job pending', async () => {
+    const parsera = client().reply({ status: 401, times: Infinity });
+    const queue = parsera.queue({ path, concurrency: 1 });
+    await queue.add({ urls: ['https://a.com', 'https://b.com'], attributes });
+
+    await expect(queue.run()).rejects.toThrow(ParseraAuthError);
+    expect(parsera.requests).toHaveLength(1);
+    expect(queue.progress).toMatchObject({ pending: 2, failed: 0 });
+  });
+
+  it('should not leave listeners on the run signal', async () => {
+    const parsera = client().reply({ data: [{ title: 'A' }], times: Infinity });
+    const queue = parsera.queue({ path });
+    await queue.add({
+      urls: Array.from({ length: 30 }, (_, index) => `https://example.com/${index}`),
+      attributes
+    });
+    const controller = new AbortController();
+
+    expect(await queue.run({ signal: controller.signal })).toMatchObject({ done: 30 });
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+
+  it('should leave interrupted jobs pending when aborted', async () => {
+    const parsera = client().reply({ data: [{ title: 'A' }], latency: 1000 });
+    const queue = parsera.queue({ path });
+    await queue.add({ urls: ['https://a.com'], attributes });
+
+    const controller = new AbortController();
+    const run = queue.run({ signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(run).rejects.toThrow(ParseraAbortError);
+    expect(queue.progress).toMatchObject({ pending: 1, done: 0 });
+    const log = await readFile(path, 'utf8');
+    expect(log.trim().split('\n').pop()).toContain('"op":"requeue"');
+  });
+});
@@ -0,0 +1,464 @@
+import { createReadStream } from 'node:fs';
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { createInterface } from 'node:readline';
+import {
+  ParseraAbortError,
+  ParseraAuthError,
+  ParseraBadRequestError,
+  ParseraBudgetExceededError,
+  ParseraNoDataError,
+  ParseraValidationError
+} from '../errors/parsera.js';
+import type { ExtractManyUrlsInput, ExtractOptions, ParseraCookie } from './parsera.js';
+import type { QualityRules } from './quality.js';
+import type { ParseraTransform } from './transforms.js';
+
+export type QueueJobStatus = 'pending' | 'running' | 'done' | 'failed';
+
+// Options holding signals, functions or patterns cannot be written to the log, and cookies
+// are credentials that should not sit on disk; they are passed to `queue()` or `run()` instead
+type UnstoredOption = 'signal' | 'transforms' | 'quality' | 'cookies';
+const UNSTORED_OPTIONS = ['transforms', 'quality', 'cookies'] as const;
+
+type StoredInput = Omit<ExtractOptions, UnstoredOption>;
+
+/**
+ * Extraction options stored in the queue; `id` defaults to the URL
+ */
+export type QueueJobInput = StoredInput & { id?: string };
+
+export interface QueueJob {
+  id: string;
+  input: StoredInput;
+  status: QueueJobStatus;
+  /** Number of attempts made so far */
+  attempts: number;
+  /** Last error, for failed jobs and jobs waiting for a retry */
+  error?: { name: string; message: string };
+}
+
+export interface QueueResult {
+  id: string;
+  url: string;
+  data: Record<string, string>[];
+  /** Time the job completed, in milliseconds since epoch */
+  extractedAt: number;
+}
+
+export interface QueueProgress {
+  total: number;
+  pending: number;
+  running: number;
+  done: number;
+  failed: number;
+}
+
+export interface ExtractionQueueOptions {
+  /**
+   * Path of the append-only log holding the queue state and results
+   * Created on first write; an existing log is resumed. Job options other than cookies,
+   * and the extracted rows, are stored in plain text
+   */
+  path: string;
+
+  /**
+   * Maximum number of extractions running at the same time
+   * @default 5
+   */
+  concurrency?: number;
+
+  /**
+   * Maximum number of attempts per job before it is marked as failed
+   * Validation, bad request and no data errors are not retried
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Post-processing applied to the rows of every job, as in `extract`
+   * Not stored in the log: pass the same transforms when resuming
+   */
+  transforms?: ParseraTransform[];
+
+  /**
+   * Quality rules checked for every job, as in `extract`
+   * Not stored in the log: pass the same rules when resuming
+   */
+  quality?: QualityRules;
+
+  /**
+   * Cookies sent with every job, as in `extract`
+   * Not stored in the log: pass the same cookies when resuming
+   */
+  cookies?: ParseraCookie[];
+}
+
+export interface QueueRunOptions {
+  /**
+   * Stops the run; interrupted jobs stay pending
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Replaces the queue's `transforms` for this run
+   */
+  transforms?: ParseraTransform[];
+
+  /**
+   * Replaces the queue's `quality` rules for this run
+   */
+  quality?: QualityRules;
+
+  /**
+   * Replaces the queue's `cookies` for this run
+   */
+  cookies?: ParseraCookie[];
+}
+
+export interface ExtractionQueueDependencies {
+  extract: (options: ExtractOptions) => Promise<Record<string, string>[]>;
+  emit: (eventType: string, data?: unknown, error?: Error) => Promise<void>;
+}
+
+type QueueRecord =
+  | { op: 'add'; id: string; input: StoredInput; at: number }
+  | { op: 'start'; id: string; attempt: number; at: number }
+  | { op: 'done'; id: string; data: Record<string, string>[]; at: number }
+  | {
+      op: 'fail';
+      id: string;
+      attempt: number;
+      error: { name: string; message: string };
+      final: boolean;
+      at: number;
+    }
+  | { op: 'requeue'; id: string; attempts: number; at: number }
+  | { op: 'retry'; id: string; at: number };
+
+const NON_RETRYABLE = [ParseraValidationError, ParseraBadRequestError, ParseraNoDataError];
+
+// Errors that would fail every remaining job; the run stops and the job stays pending
+const FATAL = [ParseraAuthError, ParseraBudgetExceededError];
+
+async function* readRecords(path: string): AsyncGenerator<QueueRecord> {
+  const stream = createReadStream(path, { encoding: 'utf8' });
+  try {
+    for await (const line of createInterface({ input: stream, crlfDelay: Infinity })) {
+      if (!line.trim()) continue;
+      try {
+        yield JSON.parse(line) as QueueRecord;
+      } catch {
+        // A line cut short by a crash; the job it describes is replayed
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  } finally {
+    stream.destroy();
+  }
+}
+
+/**
+ * Persistent extraction queue backed by an append-only JSON log.
+ * Every state change is written before moving on, so a run interrupted by a crash
+ * or a deploy resumes where it stopped without paying again for finished pages.
+ * Create queues with `parsera.queue()` so events go through the client.
+ */
+export class ExtractionQueue {
+  readonly path: string;
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+  private readonly transforms?: ParseraTransform[];
+  private readonly quality?: QualityRules;
+  private readonly cookies?: ParseraCookie[];
+  private readonly deps: ExtractionQueueDependencies;
+  private readonly jobs = new Map<string, QueueJob>();
+  private readonly pendingIds: string[] = [];
+  private loaded?: Promise<void>;
+  private writes: Promise<void> = Promise.resolve();
+  private running = false;
+
+  constructor(
+    {
+      path,
+      concurrency = 5,
+      maxAttempts = 3,
+      transforms,
+      quality,
+      cookies
+    }: ExtractionQueueOptions,
+    deps: ExtractionQueueDependencies
+  ) {
+    if (concurrency < 1 || maxAttempts < 1) {
+      throw new ParseraValidationError('concurrency and maxAttempts must be at least 1');
+    }
+    this.path = path;
+    this.concurrency = concurrency;
+    this.maxAttempts = maxAttempts;
+    this.transforms = transforms;
+    this.quality = quality;
+    this.cookies = cookies;
+    this.deps = deps;
+  }
+
+  /**
+   * Number of jobs in each state
+   */
+  get progress(): QueueProgress {
+    const progress: QueueProgress = { total: 0, pending: 0, running: 0, done: 0, failed: 0 };
+    for (const job of this.jobs.values()) {
+      progress.total++;
+      progress[job.status]++;
+    }
+    return progress;
+  }
+
+  private ready(): Promise<void> {
+    this.loaded ??= this.load();
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    for await (const record of readRecords(this.path)) {
+      this.apply(record);
+    }
+    // Jobs running when the process stopped start over
+    for (const job of this.jobs.values()) {
+      if (job.status === 'running') job.status = 'pending';
+    }
+    for (const job of this.jobs.values()) {
+      if (job.status === 'pending') this.pendingIds.push(job.id);
+    }
+  }
+
+  private apply(record: QueueRecord): void {
+    if (record.op === 'add') {
+      if (!this.jobs.has(record.id)) {
+        this.jobs.set(record.id, {
+          id: record.id,
+          input: record.input,
+          status: 'pending',
+          attempts: 0
+        });
+      }
+      return;
+    }
+
+    const job = this.jobs.get(record.id);
+    if (!job) return;
+    switch (record.op) {
+      case 'start':
+        job.status = 'running';
+        job.attempts = record.attempt;
+        break;
+      case 'done':
+        job.status = 'done';
+        delete job.error;
+        break;
+      case 'fail':
+        job.status = record.final ? 'failed' : 'pending';
+        job.attempts = record.attempt;
+        job.error = record.error;
+        break;
+      case 'requeue':
+        job.status = 'pending';
+        job.attempts = record.attempts;
+        break;
+      case 'retry':
+        job.status = 'pending';
+        job.attempts = 0;
+        break;
+    }
+  }
+
+  private append(records: QueueRecord[]): Promise<void> {
+    const lines = records.map((record) => `${JSON.stringify(record)}\n`).join('');
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await appendFile(this.path, lines, 'utf8');
+      });
+    return this.writes;
+  }
+
+  /**
+   * Adds jobs to the queue; jobs whose id is already queued are ignored,
+   * so the same list can be added again when a script restarts
+   * @throws {ParseraValidationError} When an input sets `transforms`, `quality` or `cookies`,
+   * which are not stored; pass them to `queue()` or `run()` instead
+   * @returns Number of jobs actually added
+   */
+  async add(inputs: QueueJobInput[] | Omit<ExtractManyUrlsInput, UnstoredOption>): Promise<number> {
+    await this.ready();
+    let items: QueueJobInput[];
+    if (Array.isArray(inputs)) {
+      items = inputs;
+    } else {
+      const { urls, ...shared } = inputs;
+      items = urls.map((url) => ({ ...shared, url }));
+    }
+    for (const item of items) {
+      const option = UNSTORED_OPTIONS.find((key) => (item as ExtractOptions)[key] !== undefined);
+      if (option) {
+        throw new ParseraValidationError(
+          `"${option}" cannot be stored in the queue; pass it to queue() or run() instead`
+        );
+      }
+    }
+
+    const records: QueueRecord[] = [];
+    for (const { id, ...input } of items) {
+      // Signals cannot be stored; pass one to `run()` instead
+      delete (input as ExtractOptions).signal;
+      const jobId = id ?? input.url;
+      if (this.jobs.has(jobId)) continue;
+      const record: QueueRecord = { op: 'add', id: jobId, input, at: Date.now() };
+      this.apply(record);
+      this.pendingIds.push(jobId);
+      records.push(record);
+    }
+    if (records.length) await this.append(records);
+    return records.length;
+  }
+
+  /**
+   * Lists jobs, optionally only those in the given state
+   */
+  async list(status?: QueueJobStatus): Promise<QueueJob[]> {
+    await this.ready();
+    const jobs = Array.from(this.jobs.values(), (job) => ({ ...job }));
+    return status ? jobs.filter((job) => job.status === status) : jobs;
+  }
+
+  /**
+   * Moves failed jobs back to pending with their attempts reset
+   * @returns Number of jobs requeued
+   */
+  async retryFailed(): Promise<number> {
+    await this.ready();
+    const records: QueueRecord[] = [];
+    for (const job of this.jobs.values()) {
+      if (job.status !== 'failed') continue;
+      const record: QueueRecord = { op: 'retry', id: job.id, at: Date.now() };
+      this.apply(record);
+      this.pendingIds.push(job.id);
+      records.push(record);
+    }
+    if (records.length) await this.append(records);
+    return records.length;
+  }
+
+  /**
+   * Reads the results of finished jobs back from the log
+   * Can be passed directly to the exporters
+   */
+  async *results(): AsyncGenerator<QueueResult> {
+    await this.ready();
+    await this.writes;
+    for await (const record of readRecords(this.path)) {
+      if (record.op !== 'done') continue;
+      const job = this.jobs.get(record.id);
+      if (job?.status !== 'done') continue;
+      yield { id: record.id, url: job.input.url, data: record.data, extractedAt: record.at };
+    }
+  }
+
+  /**
+   * Processes pending jobs until none are left, emitting `queue:progress` after each job
+   * and `queue:complete` at the end. Jobs are retried up to `maxAttempts` times.
+   *
+   * @param options - AbortSignal stopping the run, and transforms, quality rules or cookies
+   * for its jobs
+   * @throws {ParseraAbortError} When the run is aborted
+   * @throws {ParseraAuthError} When the API key is rejected
+   * @throws {ParseraBudgetExceededError} When the client's credit budget is exhausted
+   * @returns Progress at the end of the run
+   */
+  async run({
+    signal,
+    transforms = this.transforms,
+    quality = this.quality,
+    cookies = this.cookies
+  }: QueueRunOptions = {}): Promise<QueueProgress> {
+    await this.ready();
+    if (this.running) {
+      throw new ParseraValidationError('The queue is already running');
+    }
+    this.running = true;
+
+    let fatal: Error | undefined;
+    const worker = async () => {
+      while (!fatal && !signal?.aborted) {
+        const id = this.pendingIds.shift();
+        if (id === undefined) return;
+        const job = this.jobs.get(id);
+        if (job?.status !== 'pending') continue;
+        try {
+          await this.process(job, { signal, transforms, quality, cookies });
+        } catch (error) {
+          fatal ??= error as Error;
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: this.concurrency }, worker));
+    } finally {
+      this.running = false;
+    }
+
+    if (fatal) throw fatal;
+    if (signal?.aborted) throw new ParseraAbortError();
+    const progress = this.progress;
+    await this.deps.emit('queue:complete', { path: this.path, ...progress });
+    return progress;
+  }
+
+  private async process(
+    job: QueueJob,
+    { signal, transforms, quality, cookies }: QueueRunOptions
+  ): Promise<void> {
+    const attempt = job.attempts + 1;
+    const start: QueueRecord = { op: 'start', id: job.id, attempt, at: Date.now() };
+    this.apply(start);
+    await this.append([start]);
+
+    let record: QueueRecord;
+    let fatal: Error | undefined;
+    try {
+      const data = await this.deps.extract({
+        ...job.input,
+        signal,
+        transforms,
+        quality,
+        cookies
+      });
+      record = { op: 'done', id: job.id, data, at: Date.now() };
+    } catch (caught) {
+      const error = caught instanceof Error ? caught : new Error(String(caught));
+      if (signal?.aborted || FATAL.some((type) => error instanceof type)) {
+        // The attempt does not count: the job was not at fault
+        record = { op: 'requeue', id: job.id, attempts: attempt - 1, at: Date.now() };
+        if (!signal?.aborted) fatal = error;
+      } else {
+        const retryable = !NON_RETRYABLE.some((type) => error instanceof type);
+        record = {
+          op: 'fail',
+          id: job.id,
+          attempt,
+          error: { name: error.name, message: error.message },
+          final: !retryable || attempt >= this.maxAttempts,
+          at: Date.now()
+        };
+      }
+    }
+
+    this.apply(record);
+    if (record.op !== 'done' && job.status === 'pending') this.pendingIds.push(job.id);
+    await this.append([record]);
+    if (fatal) throw fatal;
+    await this.deps.emit('queue:progress', { path: this.path, id: job.id, ...this.progress });
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter } from './rate-limiter.js';
+import { Parsera } from './parsera.js';
+import { ParseraAbortError, ParseraValidationError } from '../errors/parsera.js';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should space requests according to requestsPerSecond', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 2 });
+    const started: number[] = [];
+    const start = Date.now();
+
+    const acquisitions = Array.from({ length: 4 }, () =>
+      limiter.acquire().then((release) => {
+        started.push(Date.now() - start);
+        release();
+      })
+    );
+    await vi.runAllTimersAsync();
+    await Promise.all(acquisitions);
+
+    expect(started).toEqual([0, 0, 100, 200]);
+  });
+
+  it('should cap the number of requests in flight', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1000, burst: 10, maxConcurrent: 2 });
+
+    const first = await limiter.acquire();
+    await limiter.acquire();
+    const third = limiter.acquire();
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(limiter.inFlight).toBe(2);
+    expect(limiter.pending).toBe(1);
+
+    first();
+    await third;
+    expect(limiter.inFlight).toBe(2);
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should hold all requests while paused', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, burst: 5 });
+    limiter.pause(1000);
+
+    const acquired = vi.fn();
+    limiter.acquire().then(acquired);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(acquired).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(acquired).toHaveBeenCalled();
+  });
+
+  it('should reject waiting requests when their signal aborts', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, burst: 1 });
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow(ParseraAbortError);
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new RateLimiter({ requestsPerSecond: 0 })).toThrow(ParseraValidationError);
+  });
+
+  it('should be shareable across clients', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 1 });
+    const apiKey = 'x'.repeat(32);
+    const clients = [
+      new Parsera({ apiKey, rateLimit: limiter }),
+      new Parsera({ apiKey, rateLimit: limiter })
+    ];
+    const calls: number[] = [];
+    const start = Date.now();
+    global.fetch = vi.fn().mockImplementation(() => {
+      calls.push(Date.now() - start);
+      return Promise.resolve({ ok: true, json: () => Promise.resolve({ data: [{ a: 'b' }] }) });
+    });
+
+    const extractions = clients.map((client) =>
+      client.extract({ url: 'https://example.com', attributes: { a: 'b' } })
+    );
+    await vi.runAllTimersAsync();
+    await Promise.all(extractions);
+
+    expect(calls).toEqual([0, 100]);
+  });
+});
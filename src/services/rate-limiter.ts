@@ -0,0 +1,161 @@
+import { ParseraAbortError, ParseraValidationError } from '../errors/parsera.js';
+
+export interface RateLimiterOptions {
+  /**
+   * Number of requests allowed per second
+   * Tokens are refilled continuously at this rate
+   * @default 10
+   */
+  requestsPerSecond?: number;
+
+  /**
+   * Maximum number of requests that can be started at once after an idle period
+   * @default 1
+   */
+  burst?: number;
+
+  /**
+   * Maximum number of requests in flight at the same time
+   * @default Infinity
+   */
+  maxConcurrent?: number;
+}
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token-bucket rate limiter with a cap on in-flight requests.
+ * A single instance can be passed to several `Parsera` clients
+ * so they share the same budget.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ requestsPerSecond: 5, maxConcurrent: 10 });
+ *
+ * const a = new Parsera({ apiKey, rateLimit: limiter });
+ * const b = new Parsera({ apiKey: otherKey, rateLimit: limiter });
+ * ```
+ */
+export class RateLimiter {
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private active = 0;
+  private readonly queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor({
+    requestsPerSecond = 10,
+    burst = 1,
+    maxConcurrent = Infinity
+  }: RateLimiterOptions = {}) {
+    if (requestsPerSecond <= 0 || burst < 1 || maxConcurrent < 1) {
+      throw new ParseraValidationError('Invalid rate limiter options');
+    }
+    this.requestsPerSecond = requestsPerSecond;
+    this.burst = burst;
+    this.maxConcurrent = maxConcurrent;
+    this.tokens = burst;
+  }
+
+  /**
+   * Number of requests currently holding a slot
+   */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  /**
+   * Number of requests waiting for a slot
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Waits for a slot, in FIFO order
+   * @param signal - Aborts the wait and rejects with `ParseraAbortError`
+   * @returns A function that must be called once the request is finished
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(new ParseraAbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          const index = this.queue.indexOf(waiter);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+            reject(new ParseraAbortError());
+          }
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.process();
+    });
+  }
+
+  /**
+   * Stops handing out slots for the given delay
+   * Called when the API responds with 429 and a `Retry-After` header
+   */
+  pause(delay: number): void {
+    const now = Date.now();
+    this.refill(now);
+    this.pausedUntil = Math.max(this.pausedUntil, now + delay);
+    this.tokens = 0;
+  }
+
+  private refill(now: number): void {
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsed * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private process(): void {
+    const now = Date.now();
+    this.refill(now);
+
+    while (
+      this.queue.length &&
+      this.active < this.maxConcurrent &&
+      this.tokens >= 1 &&
+      now >= this.pausedUntil
+    ) {
+      const waiter = this.queue.shift() as Waiter;
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+      this.tokens -= 1;
+      this.active++;
+      let released = false;
+      waiter.resolve(() => {
+        if (released) return;
+        released = true;
+        this.active--;
+        this.process();
+      });
+    }
+
+    if (this.queue.length && this.active < this.maxConcurrent && !this.timer) {
+      const tokenWait = ((1 - this.tokens) / this.requestsPerSecond) * 1000;
+      const wait = Math.max(tokenWait, this.pausedUntil - now, 0);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.process();
+      }, wait);
+    }
+  }
+}
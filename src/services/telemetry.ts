@@ -0,0 +1,186 @@
+export type ParseraAttributeValue = string | number | boolean;
+
+export type ParseraAttributes = Record<string, ParseraAttributeValue>;
+
+/**
+ * Span status codes, same values as OpenTelemetry's `SpanStatusCode`
+ */
+export const ParseraSpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2
+} as const;
+
+/**
+ * Subset of the OpenTelemetry `Span` API used by the client
+ * OpenTelemetry spans satisfy it as is
+ */
+export interface ParseraSpan {
+  setAttribute(key: string, value: ParseraAttributeValue): unknown;
+  setAttributes(attributes: ParseraAttributes): unknown;
+  recordException(exception: Error): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): unknown;
+}
+
+/**
+ * Creates spans; wrap an OpenTelemetry tracer to link `parent` through the context API
+ */
+export interface ParseraTracer {
+  startSpan(
+    name: string,
+    options: { attributes?: ParseraAttributes },
+    parent?: ParseraSpan
+  ): ParseraSpan;
+}
+
+export interface ParseraCounter {
+  add(value: number, attributes?: ParseraAttributes): unknown;
+}
+
+export interface ParseraHistogram {
+  record(value: number, attributes?: ParseraAttributes): unknown;
+}
+
+/**
+ * Subset of the OpenTelemetry `Meter` API used by the client
+ * OpenTelemetry meters satisfy it as is
+ */
+export interface ParseraMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): ParseraCounter;
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): ParseraHistogram;
+}
+
+export interface ParseraTelemetryOptions {
+  /**
+   * Receives a span per `extract`, `parse` and `extractMarkdown` call,
+   * with a child span per HTTP attempt
+   */
+  tracer?: ParseraTracer;
+
+  /**
+   * Receives latency histograms and retry, rate limit and error counters
+   */
+  meter?: ParseraMeter;
+}
+
+/**
+ * A traced API call, ended exactly once with its outcome
+ */
+export interface ParseraOperation {
+  span: ParseraSpan;
+  end(error?: Error): void;
+}
+
+type AttributeInput = Record<string, ParseraAttributeValue | undefined>;
+
+const noopSpan: ParseraSpan = {
+  setAttribute: () => undefined,
+  setAttributes: () => undefined,
+  recordException: () => undefined,
+  setStatus: () => undefined,
+  end: () => undefined
+};
+
+const noopInstrument: ParseraCounter & ParseraHistogram = {
+  add: () => undefined,
+  record: () => undefined
+};
+
+const definedAttributes = (attributes: AttributeInput): ParseraAttributes =>
+  Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== undefined)
+  ) as ParseraAttributes;
+
+/**
+ * Creates spans and records metrics for the client, doing nothing for missing hooks
+ */
+export class Telemetry {
+  private readonly tracer?: ParseraTracer;
+  private readonly operationDuration: ParseraHistogram;
+  private readonly requestDuration: ParseraHistogram;
+  private readonly retries: ParseraCounter;
+  private readonly rateLimits: ParseraCounter;
+  private readonly errors: ParseraCounter;
+
+  constructor({ tracer, meter }: ParseraTelemetryOptions = {}) {
+    this.tracer = tracer;
+    this.operationDuration =
+      meter?.createHistogram('parsera.operation.duration', {
+        description: 'Duration of SDK calls, retries included',
+        unit: 'ms'
+      }) ?? noopInstrument;
+    this.requestDuration =
+      meter?.createHistogram('parsera.request.duration', {
+        description: 'Duration of single HTTP requests to the Parsera API',
+        unit: 'ms'
+      }) ?? noopInstrument;
+    this.retries =
+      meter?.createCounter('parsera.request.retries', {
+        description: 'Requests retried after a failure'
+      }) ?? noopInstrument;
+    this.rateLimits =
+      meter?.createCounter('parsera.request.rate_limited', {
+        description: 'Requests rejected with HTTP 429'
+      }) ?? noopInstrument;
+    this.errors =
+      meter?.createCounter('parsera.errors', {
+        description: 'SDK calls that failed'
+      }) ?? noopInstrument;
+  }
+
+  startSpan(name: string, attributes: AttributeInput, parent?: ParseraSpan): ParseraSpan {
+    if (!this.tracer) return noopSpan;
+    return this.tracer.startSpan(name, { attributes: definedAttributes(attributes) }, parent);
+  }
+
+  /**
+   * Starts the span of an SDK call, e.g. `startOperation('extract', {...})`
+   */
+  startOperation(operation: string, attributes: AttributeInput): ParseraOperation {
+    const span = this.startSpan(`parsera.${operation}`, attributes);
+    const started = Date.now();
+    let ended = false;
+
+    return {
+      span,
+      end: (error) => {
+        if (ended) return;
+        ended = true;
+        const metricAttributes = definedAttributes({
+          'parsera.operation': operation,
+          'parsera.outcome': error ? 'error' : 'success',
+          'error.type': error?.name
+        });
+        this.operationDuration.record(Date.now() - started, metricAttributes);
+        if (error) {
+          this.errors.add(1, metricAttributes);
+          this.failSpan(span, error);
+        } else {
+          span.setStatus({ code: ParseraSpanStatusCode.OK });
+        }
+        span.end();
+      }
+    };
+  }
+
+  failSpan(span: ParseraSpan, error: Error): void {
+    span.recordException(error);
+    span.setStatus({ code: ParseraSpanStatusCode.ERROR, message: error.message });
+  }
+
+  recordRequest(duration: number, attributes: AttributeInput): void {
+    this.requestDuration.record(duration, definedAttributes(attributes));
+  }
+
+  recordRetry(attributes: AttributeInput): void {
+    this.retries.add(1, definedAttributes(attributes));
+  }
+
+  recordRateLimit(attributes: AttributeInput): void {
+    this.rateLimits.add(1, definedAttributes(attributes));
+  }
+}
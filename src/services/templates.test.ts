@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ParseraValidationError } from '../errors/parsera.js';
+import { MockParsera } from './mock.js';
+import { BUILT_IN_TEMPLATES, TemplateRegistry } from './templates.js';
+
+describe('TemplateRegistry', () => {
+  const registry = () =>
+    new TemplateRegistry([
+      { name: 'product', attributes: { name: 'Product name' } },
+      { name: 'product', version: 2, attributes: { name: 'Product name', sku: 'SKU' } }
+    ]);
+
+  it('should resolve the latest or a given version', () => {
+    expect(registry().get('product').version).toBe(2);
+    expect(registry().get('product@1').attributes).toEqual({ name: 'Product name' });
+    expect(() => registry().get('product@3')).toThrow(
+      'Unknown template "product@3" (available versions: 1, 2)'
+    );
+    expect(() => registry().get('missing')).toThrow(ParseraValidationError);
+  });
+
+  it('should reject invalid templates with the invalid fields', () => {
+    const error = (() => {
+      try {
+        registry().register({ name: 'bad@name', version: 0, attributes: {} });
+      } catch (caught) {
+        return caught as ParseraValidationError;
+      }
+    })();
+
+    expect(error?.issues.map((issue) => issue.path)).toEqual(['name', 'version', 'attributes']);
+  });
+
+  it('should list templates by name and version', () => {
+    const names = new TemplateRegistry(BUILT_IN_TEMPLATES)
+      .register({ name: 'article', version: 2, attributes: { title: 'Title' } })
+      .list()
+      .map(({ name, version }) => `${name}@${version}`);
+
+    expect(names).toEqual([
+      'article@1',
+      'article@2',
+      'contact-info@1',
+      'job-posting@1',
+      'product-listing@1'
+    ]);
+  });
+
+  describe('load', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'parsera-templates-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should load JSON and YAML files from a directory', async () => {
+      await writeFile(
+        join(directory, 'jobs.json'),
+        JSON.stringify({
+          templates: [{ name: 'job', attributes: [{ name: 'title', description: 'Title' }] }]
+        })
+      );
+      await writeFile(
+        join(directory, 'product.yaml'),
+        [
+          'name: product',
+          'version: 3',
+          'precisionMode: true',
+          'attributes:',
+          '  price: Price'
+        ].join('\n')
+      );
+      await writeFile(join(directory, 'notes.txt'), 'ignored');
+
+      const loaded = new TemplateRegistry();
+      expect(await loaded.load(directory)).toHaveLength(2);
+      expect(loaded.get('product')).toEqual({
+        name: 'product',
+        version: 3,
+        precisionMode: true,
+        attributes: { price: 'Price' }
+      });
+      expect(loaded.get('job@1').attributes).toEqual([{ name: 'title', description: 'Title' }]);
+    });
+
+    it('should name the file of an invalid template', async () => {
+      const path = join(directory, 'broken.json');
+      await writeFile(path, JSON.stringify({ name: 'broken' }));
+
+      await expect(new TemplateRegistry().load(path)).rejects.toThrow(
+        `Invalid template in ${path}:\nattributes: Required`
+      );
+    });
+  });
+});
+
+describe('Parsera templates', () => {
+  it('should extract with a template, call options taking precedence', async () => {
+    const parsera = new MockParsera({
+      templates: [
+        {
+          name: 'product',
+          attributes: { name: 'Product name' },
+          precisionMode: true,
+          proxyCountry: 'Germany'
+        }
+      ]
+    }).reply({ data: [{ name: 'Widget' }], times: Infinity });
+
+    await parsera.extract({ url: 'https://example.com', template: 'product' });
+    await parsera.extract({
+      url: 'https://example.com',
+      template: 'product-listing',
+      attributes: { title: 'Title' }
+    });
+
+    const [first, second] = parsera.requests.filter((request) => request.path === '/extract');
+    expect(first.body).toEqual({
+      url: 'https://example.com',
+      attributes: [{ name: 'name', description: 'Product name' }],
+      proxy_country: 'Germany',
+      mode: 'precision'
+    });
+    expect(second.body).toMatchObject({ attributes: [{ name: 'title', description: 'Title' }] });
+  });
+
+  it('should require attributes or a template', async () => {
+    const parsera = new MockParsera();
+
+    await expect(parsera.extract({ url: 'https://example.com' })).rejects.toThrow(
+      'attributes: Required'
+    );
+    await expect(
+      parsera.extract({ url: 'https://example.com', template: 'unknown' })
+    ).rejects.toThrow('Unknown template "unknown"');
+    expect(parsera.requests).toHaveLength(0);
+  });
+});
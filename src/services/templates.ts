@@ -0,0 +1,253 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { ParseraValidationError } from '../errors/parsera.js';
+import { TemplateSchema } from '../schemas/input.js';
+import { toValidationError } from '../utils/validation.js';
+import type { ParseraAttribute } from './parsera.js';
+
+export interface ExtractionTemplate {
+  /**
+   * Template name, e.g. "product-listing"
+   */
+  name: string;
+
+  /**
+   * Version of the template; several versions of a name can be registered
+   * @default 1
+   */
+  version?: number;
+
+  /**
+   * What the template extracts, for people browsing the registry
+   */
+  description?: string;
+
+  /**
+   * Attributes to extract, as in `extract`
+   */
+  attributes: ParseraAttribute[] | Record<string, string>;
+
+  /**
+   * Precision mode used unless the call sets `precisionMode`
+   */
+  precisionMode?: boolean;
+
+  /**
+   * Proxy country used unless the call sets `proxyCountry`
+   */
+  proxyCountry?: string;
+}
+
+const TEMPLATE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * Templates shipped with the SDK, registered in every client
+ */
+export const BUILT_IN_TEMPLATES: readonly ExtractionTemplate[] = [
+  {
+    name: 'product-listing',
+    version: 1,
+    description: 'Products of a catalog or search results page',
+    attributes: {
+      name: 'Product name',
+      price: 'Product price with currency',
+      url: 'Link to the product page',
+      image: 'URL of the main product image',
+      rating: 'Average rating, if shown',
+      availability: 'Stock status, e.g. "In stock"'
+    }
+  },
+  {
+    name: 'job-posting',
+    version: 1,
+    description: 'Job offers of a careers page or job board',
+    attributes: {
+      title: 'Job title',
+      company: 'Hiring company',
+      location: 'Job location, or "Remote"',
+      salary: 'Salary range with currency, if shown',
+      employmentType: 'Full-time, part-time, contract or internship',
+      postedAt: 'Date the job was posted',
+      url: 'Link to the job offer'
+    }
+  },
+  {
+    name: 'article',
+    version: 1,
+    description: 'A news or blog article',
+    attributes: {
+      title: 'Article headline',
+      author: 'Author name',
+      publishedAt: 'Publication date',
+      summary: 'One or two sentence summary of the article',
+      content: 'Full article text'
+    }
+  },
+  {
+    name: 'contact-info',
+    version: 1,
+    description: 'Contact details of a company or person',
+    attributes: {
+      name: 'Company or person name',
+      email: 'Email address',
+      phone: 'Phone number',
+      address: 'Postal address',
+      website: 'Website URL'
+    }
+  }
+];
+
+const parseReference = (reference: string): { name: string; version?: number } => {
+  const match = /^([^@]+)(?:@(\d+))?$/.exec(reference.trim());
+  if (!match) {
+    throw new ParseraValidationError(
+      `Invalid template reference "${reference}", expected "name" or "name@version"`
+    );
+  }
+  return { name: match[1], ...(match[2] && { version: Number(match[2]) }) };
+};
+
+const parseYaml = async (content: string): Promise<unknown> => {
+  // Kept in a variable so bundlers and the compiler do not require yaml to be installed
+  const moduleName = 'yaml';
+  let yaml: { parse: (source: string) => unknown };
+  try {
+    yaml = await import(moduleName);
+  } catch (error) {
+    throw new ParseraValidationError(
+      'YAML templates require the "yaml" package. Install it with: npm install yaml',
+      { cause: error }
+    );
+  }
+  return yaml.parse(content);
+};
+
+/**
+ * Named, versioned extraction templates, referenced as "name" (latest version) or "name@version"
+ * Each client has its own registry with the built-in templates;
+ * pass a registry to several clients through the `templates` option to share it.
+ *
+ * @example
+ * ```typescript
+ * const registry = new TemplateRegistry(BUILT_IN_TEMPLATES);
+ * registry.register({
+ *     name: "product-listing",
+ *     version: 2,
+ *     attributes: { name: "Product name", price: "Price", sku: "SKU" },
+ *     precisionMode: true
+ * });
+ * await registry.load("templates/");
+ *
+ * const parsera = new Parsera({ apiKey, templates: registry });
+ * await parsera.extract({ url, template: "product-listing@2" });
+ * ```
+ */
+export class TemplateRegistry {
+  private readonly templates = new Map<string, Map<number, ExtractionTemplate>>();
+
+  constructor(templates: readonly ExtractionTemplate[] = []) {
+    this.register(...templates);
+  }
+
+  /**
+   * Adds templates; a template with the same name and version is replaced
+   * @throws {ParseraValidationError} When a template is invalid
+   * @returns The registry, for chaining
+   */
+  register(...templates: ExtractionTemplate[]): this {
+    for (const template of templates) {
+      const validated = this.validate(template, `Invalid template "${template?.name}"`);
+      if (!this.templates.has(validated.name)) {
+        this.templates.set(validated.name, new Map());
+      }
+      this.templates.get(validated.name)?.set(validated.version ?? 1, validated);
+    }
+    return this;
+  }
+
+  /**
+   * Finds a template by reference, e.g. "article" or "article@2"
+   * @throws {ParseraValidationError} When no template matches
+   */
+  get(reference: string): ExtractionTemplate {
+    const { name, version } = parseReference(reference);
+    const versions = this.templates.get(name);
+    const latest = versions && Math.max(...versions.keys());
+    const template = versions?.get(version ?? latest ?? 1);
+    if (!template) {
+      const available = versions ? ` (available versions: ${[...versions.keys()].join(', ')})` : '';
+      throw new ParseraValidationError(`Unknown template "${reference}"${available}`);
+    }
+    return template;
+  }
+
+  /**
+   * Returns the template a call refers to: a registered one by reference, or a validated inline one
+   * @throws {ParseraValidationError} When the reference is unknown or the template invalid
+   */
+  resolve(template: string | ExtractionTemplate): ExtractionTemplate {
+    if (typeof template === 'string') return this.get(template);
+    return this.validate(template, 'Invalid template');
+  }
+
+  /**
+   * Lists every registered template, sorted by name and version
+   */
+  list(): ExtractionTemplate[] {
+    return [...this.templates.values()]
+      .flatMap((versions) => [...versions.values()])
+      .sort((a, b) => a.name.localeCompare(b.name) || (a.version ?? 1) - (b.version ?? 1));
+  }
+
+  /**
+   * Registers the templates of a JSON or YAML file, or of every such file in a directory.
+   * A file holds one template, an array of templates or `{ templates: [...] }`.
+   * YAML files require the optional `yaml` package.
+   *
+   * @param path - File or directory path
+   * @throws {ParseraValidationError} When a file cannot be parsed or holds an invalid template
+   * @returns The templates loaded
+   */
+  async load(path: string): Promise<ExtractionTemplate[]> {
+    if ((await stat(path)).isDirectory()) {
+      const files = (await readdir(path))
+        .filter((file) => TEMPLATE_EXTENSIONS.includes(extname(file).toLowerCase()))
+        .sort();
+      const loaded: ExtractionTemplate[] = [];
+      for (const file of files) {
+        loaded.push(...(await this.load(join(path, file))));
+      }
+      return loaded;
+    }
+
+    const content = await readFile(path, 'utf8');
+    let parsed: unknown;
+    try {
+      parsed =
+        extname(path).toLowerCase() === '.json' ? JSON.parse(content) : await parseYaml(content);
+    } catch (error) {
+      if (error instanceof ParseraValidationError) throw error;
+      throw new ParseraValidationError(`Could not parse template file ${path}`, { cause: error });
+    }
+
+    const entries: unknown = Array.isArray(parsed)
+      ? parsed
+      : parsed && typeof parsed === 'object' && 'templates' in parsed
+        ? parsed.templates
+        : [parsed];
+    if (!Array.isArray(entries)) {
+      throw new ParseraValidationError(`"templates" must be an array in ${path}`);
+    }
+    const templates = entries.map((entry) => this.validate(entry, `Invalid template in ${path}`));
+    this.register(...templates);
+    return templates;
+  }
+
+  private validate(template: unknown, message: string): ExtractionTemplate {
+    const result = TemplateSchema.safeParse(template);
+    if (!result.success) {
+      throw toValidationError(result.error, message);
+    }
+    return { ...(template as ExtractionTemplate), version: result.data.version ?? 1 };
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { MockParsera } from './mock.js';
+import {
+  applyTransforms,
+  dedupeRows,
+  dropEmptyRows,
+  normalizeDates,
+  parseNumbers,
+  resolveUrls,
+  trimWhitespace
+} from './transforms.js';
+
+const context = { url: 'https://shop.example.com/category/shoes?page=2' };
+
+describe('transforms', () => {
+  it('should trim and collapse whitespace', async () => {
+    const rows = await trimWhitespace()(
+      [{ title: '  Red\n\n  shoes\t ', price: ' $10 ' }],
+      context
+    );
+
+    expect(rows).toEqual([{ title: 'Red shoes', price: '$10' }]);
+  });
+
+  it('should resolve relative links of URL-like attributes', async () => {
+    const rows = await resolveUrls()(
+      [
+        {
+          url: '/p/1',
+          image_src: '../img/1.png',
+          link: 'https://cdn.example.com/a',
+          note: '/not-a-link-field',
+          website: 'N/A'
+        }
+      ],
+      context
+    );
+
+    expect(rows).toEqual([
+      {
+        url: 'https://shop.example.com/p/1',
+        image_src: 'https://shop.example.com/img/1.png',
+        link: 'https://cdn.example.com/a',
+        note: '/not-a-link-field',
+        website: 'N/A'
+      }
+    ]);
+  });
+
+  it('should parse prices and numbers', async () => {
+    const parse = (value: string, decimalSeparator?: '.' | ',') =>
+      parseNumbers({ fields: ['price'], decimalSeparator })([{ price: value }], context);
+
+    expect(await parse('$1,299.00')).toEqual([{ price: '1299' }]);
+    expect(await parse('1.299,50 €', ',')).toEqual([{ price: '1299.5' }]);
+    expect(await parse('-3.5')).toEqual([{ price: '-3.5' }]);
+    expect(await parse('Free')).toEqual([{ price: 'Free' }]);
+    expect(await parse('1 299 €')).toEqual([{ price: '1299' }]);
+  });
+
+  it('should leave text that is not a single number unchanged', async () => {
+    for (const value of ['4.5 out of 5', '1 of 3', 'Save 20% on $100', '1.299,50']) {
+      expect(await parseNumbers({ fields: ['price'] })([{ price: value }], context)).toEqual([
+        { price: value }
+      ]);
+    }
+  });
+
+  it('should normalize dates', async () => {
+    const rows = [{ posted: 'March 5, 2024' }, { posted: '2024-03-06' }, { posted: '3 days ago' }];
+
+    expect(await normalizeDates({ fields: ['posted'] })(rows, context)).toEqual([
+      { posted: '2024-03-05' },
+      { posted: '2024-03-06' },
+      { posted: '3 days ago' }
+    ]);
+    expect(
+      await normalizeDates({ fields: ['posted'], format: 'datetime' })(
+        [{ posted: '2024-03-05T10:00:00+02:00' }],
+        context
+      )
+    ).toEqual([{ posted: '2024-03-05T08:00:00.000Z' }]);
+  });
+
+  it('should leave ambiguous dates unchanged and not depend on the host time zone', async () => {
+    const timeZone = process.env.TZ;
+    process.env.TZ = 'America/New_York';
+    try {
+      const values = ['1', 'Version 2', 'Room 12', '03/05/2024', '2024-02-30'];
+      expect(
+        await normalizeDates({ fields: ['posted'] })(
+          [...values, 'March 5, 2024', '2024-03-06T01:00:00Z'].map((posted) => ({ posted })),
+          context
+        )
+      ).toEqual([...values, '2024-03-05', '2024-03-06'].map((posted) => ({ posted })));
+    } finally {
+      if (timeZone === undefined) delete process.env.TZ;
+      else process.env.TZ = timeZone;
+    }
+  });
+
+  it('should drop empty rows and duplicates', async () => {
+    const rows = await applyTransforms(
+      [
+        { sku: 'A', name: 'First' },
+        { sku: ' ', name: '' },
+        { sku: 'A', name: 'Again' },
+        { sku: 'B', name: 'Second' }
+      ],
+      [dropEmptyRows(), dedupeRows({ key: 'sku' })],
+      context
+    );
+
+    expect(rows).toEqual([
+      { sku: 'A', name: 'First' },
+      { sku: 'B', name: 'Second' }
+    ]);
+  });
+});
+
+describe('Parsera transforms', () => {
+  const attributes = { title: 'Title', url: 'Link' };
+
+  it('should transform rows before extract:complete, per client or per call', async () => {
+    const parsera = new MockParsera({
+      transforms: [trimWhitespace(), resolveUrls(), dedupeRows()]
+    }).reply({
+      data: [
+        { title: ' A ', url: '/a' },
+        { title: 'A', url: '/a' }
+      ],
+      times: Infinity
+    });
+    const completed: unknown[] = [];
+    parsera.on('extract:complete', (event) => {
+      completed.push(event.data?.data);
+    });
+
+    const rows = await parsera.extract({ url: 'https://example.com/list', attributes });
+    const raw = await parsera.extract({
+      url: 'https://example.com/list',
+      attributes,
+      transforms: []
+    });
+
+    expect(rows).toEqual([{ title: 'A', url: 'https://example.com/a' }]);
+    expect(raw).toHaveLength(2);
+    expect(completed).toEqual([rows, raw]);
+  });
+
+  it('should transform cached rows again on each call', async () => {
+    const parsera = new MockParsera({ cache: true }).reply({ data: [{ title: ' A ', url: '' }] });
+
+    await parsera.extract({ url: 'https://example.com', attributes });
+    const rows = await parsera.extract({
+      url: 'https://example.com',
+      attributes,
+      transforms: [trimWhitespace()]
+    });
+
+    expect(rows).toEqual([{ title: 'A', url: '' }]);
+    expect(parsera.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,173 @@
+import { parseDate, parseNumber } from '../schemas/extraction.js';
+
+export interface TransformContext {
+  /** URL the rows were extracted from */
+  url: string;
+}
+
+/**
+ * Step of the post-processing pipeline: receives the rows of an extraction and returns new ones
+ * Transforms run in order; returning fewer rows drops the others
+ */
+export type ParseraTransform = (
+  rows: Record<string, string>[],
+  context: TransformContext
+) => Record<string, string>[] | Promise<Record<string, string>[]>;
+
+/**
+ * Identifies duplicate rows: an attribute, several attributes or a function of the row
+ * Whole rows are compared when omitted
+ */
+export type RowKey = string | string[] | ((row: Record<string, string>) => string);
+
+export interface FieldsOption {
+  /**
+   * Attributes to transform
+   */
+  fields: string[];
+}
+
+export interface ParseNumbersOptions extends FieldsOption {
+  /**
+   * Decimal separator used by the page, "," for "1.299,00 €"
+   * @default "."
+   */
+  decimalSeparator?: '.' | ',';
+}
+
+export interface NormalizeDatesOptions extends FieldsOption {
+  /**
+   * "date" for "2024-03-05", "datetime" for a full ISO 8601 timestamp in UTC
+   * @default "date"
+   */
+  format?: 'date' | 'datetime';
+}
+
+// Attribute names holding links or image sources
+const URL_FIELD = /url|link|href|src|image/i;
+
+// Relative references: "/path", "./path", "../path", "?query" or "#fragment"
+const RELATIVE_URL = /^(\/|\.\.?\/|\?|#)/;
+
+const mapFields = (
+  rows: Record<string, string>[],
+  matches: (field: string) => boolean,
+  map: (value: string) => string
+): Record<string, string>[] =>
+  rows.map((row) =>
+    Object.fromEntries(
+      Object.entries(row).map(([field, value]) => [
+        field,
+        matches(field) && typeof value === 'string' ? map(value) : value
+      ])
+    )
+  );
+
+export const rowKey = (row: Record<string, string>, key?: RowKey): string => {
+  if (typeof key === 'function') return key(row);
+  const fields = key === undefined ? Object.keys(row).sort() : [key].flat();
+  return JSON.stringify(fields.map((field) => row[field]));
+};
+
+/**
+ * Trims values and collapses runs of whitespace, including line breaks, into single spaces
+ */
+export const trimWhitespace =
+  ({ fields }: Partial<FieldsOption> = {}): ParseraTransform =>
+  (rows) =>
+    mapFields(
+      rows,
+      (field) => !fields || fields.includes(field),
+      (value) => value.replace(/\s+/g, ' ').trim()
+    );
+
+/**
+ * Resolves relative links ("/p/1", "../img.png") against the URL the rows were extracted from
+ * Defaults to attributes whose name contains url, link, href, src or image
+ */
+export const resolveUrls =
+  ({ fields }: Partial<FieldsOption> = {}): ParseraTransform =>
+  (rows, { url }) =>
+    mapFields(
+      rows,
+      (field) => (fields ? fields.includes(field) : URL_FIELD.test(field)),
+      (value) => {
+        const link = value.trim();
+        if (!RELATIVE_URL.test(link)) return value;
+        try {
+          return new URL(link, url).toString();
+        } catch {
+          return value;
+        }
+      }
+    );
+
+/**
+ * Converts prices and numbers to plain decimal strings, e.g. "$1,299.00" to "1299"
+ * Values that are not a single number, such as "4.5 out of 5", are left unchanged
+ */
+export const parseNumbers =
+  ({ fields, decimalSeparator = '.' }: ParseNumbersOptions): ParseraTransform =>
+  (rows) =>
+    mapFields(
+      rows,
+      (field) => fields.includes(field),
+      (value) => {
+        const number = parseNumber(value.trim(), decimalSeparator);
+        return number === undefined ? value : String(number);
+      }
+    );
+
+/**
+ * Converts dates to ISO 8601 in UTC, e.g. "March 5, 2024" to "2024-03-05"
+ * Values that are not unambiguous dates, such as "3 days ago" or "03/05/2024", are left unchanged
+ */
+export const normalizeDates =
+  ({ fields, format = 'date' }: NormalizeDatesOptions): ParseraTransform =>
+  (rows) =>
+    mapFields(
+      rows,
+      (field) => fields.includes(field),
+      (value) => {
+        const date = parseDate(value.trim());
+        if (!date) return value;
+        const iso = date.toISOString();
+        return format === 'datetime' ? iso : iso.slice(0, 10);
+      }
+    );
+
+/**
+ * Drops rows whose attributes are all empty or whitespace
+ */
+export const dropEmptyRows = (): ParseraTransform => (rows) =>
+  rows.filter((row) => Object.values(row).some((value) => String(value ?? '').trim() !== ''));
+
+/**
+ * Keeps the first of rows sharing the same key
+ */
+export const dedupeRows =
+  ({ key }: { key?: RowKey } = {}): ParseraTransform =>
+  (rows) => {
+    const seen = new Set<string>();
+    return rows.filter((row) => {
+      const value = rowKey(row, key);
+      if (seen.has(value)) return false;
+      seen.add(value);
+      return true;
+    });
+  };
+
+/**
+ * Runs the rows through each transform in order
+ */
+export const applyTransforms = async (
+  rows: Record<string, string>[],
+  transforms: ParseraTransform[],
+  context: TransformContext
+): Promise<Record<string, string>[]> => {
+  let result = rows;
+  for (const transform of transforms) {
+    result = await transform(result, context);
+  }
+  return result;
+};
@@ -0,0 +1,9 @@
+export { MockParsera, MockTransport } from './services/mock.js';
+export type {
+  MockParseraOptions,
+  MockReply,
+  MockReplyMatch,
+  MockRequest
+} from './services/mock.js';
+export { createFixtureFetch } from './services/fixtures.js';
+export type { FixtureFetchOptions, FixtureMode, ParseraFixture } from './services/fixtures.js';
@@ -1,3 +1,5 @@
+import type { ParseraCookie } from '../services/parsera.js';
+
 export interface BaseInput {
   url: string;
   apiKey: string;
@@ -6,10 +8,7 @@ export interface BaseInput {
     description: string;
   }[];
   proxyCountry?: string;
-  cookies?: {
-    [key: string]: string;
-    sameSite: 'None' | 'Lax' | 'Strict';
-  }[];
+  cookies?: ParseraCookie[];
   precisionMode?: boolean;
 }
 
@@ -18,6 +17,8 @@ export interface ParseraResponse {
   data: Record<string, string>[];
   /** Message from the API */
   message?: string;
+  /** Credits charged for the request, when reported by the API */
+  credits_used?: number;
 }
 
 export interface ParseraError {
@@ -38,10 +39,37 @@ export interface ParseraRequestBody {
   /** Country for proxy IP */
   proxy_country?: string;
   /** Cookies to inject into the request */
-  cookies?: {
-    [key: string]: string;
-    sameSite: 'None' | 'Lax' | 'Strict';
+  cookies?: ParseraCookie[];
+  /** Extraction mode: "standard" or "precision" */
+  mode?: 'standard' | 'precision';
+}
+
+export interface ParseraParseRequestBody {
+  /** Raw HTML or text content to extract data from */
+  content: string;
+  /** Array of attributes to extract */
+  attributes: {
+    name: string;
+    description: string;
   }[];
   /** Extraction mode: "standard" or "precision" */
   mode?: 'standard' | 'precision';
 }
+
+export interface ParseraMarkdownRequestBody {
+  /** Target URL to convert to markdown */
+  url: string;
+  /** Country for proxy IP */
+  proxy_country?: string;
+  /** Cookies to inject into the request */
+  cookies?: ParseraCookie[];
+}
+
+export interface ParseraMarkdownResponse {
+  /** Cleaned page content as markdown */
+  markdown: string;
+  /** Message from the API */
+  message?: string;
+  /** Credits charged for the request, when reported by the API */
+  credits_used?: number;
+}
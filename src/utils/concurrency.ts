@@ -0,0 +1,106 @@
+/**
+ * Runs an async function over a list of items with at most `limit` calls in flight
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Function called for each item with its index
+ * @returns Results in the same order as the items
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+};
+
+/**
+ * Runs an async function over items pulled lazily from an iterable, with at most `limit` calls
+ * in flight. An item is only pulled when a slot is free, and a finished call keeps its slot until
+ * its result is consumed, so a slow consumer pauses the source. Results are yielded while the
+ * source is still producing its next item, and the stream ends as soon as `signal` aborts.
+ * @param items - Items to process, pulled one at a time
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Function called for each item with its index; it should not reject
+ * @param signal - Ends the stream, leaving calls in flight to the caller
+ * @returns An async generator yielding results as the calls complete
+ */
+export async function* streamWithConcurrency<T, R>(
+  items: Iterable<T> | AsyncIterable<T>,
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): AsyncGenerator<R> {
+  type Settled =
+    | { type: 'pulled'; next: IteratorResult<T> }
+    | { type: 'result'; index: number; result: R }
+    | { type: 'aborted' };
+
+  const iterator =
+    Symbol.asyncIterator in items ? items[Symbol.asyncIterator]() : items[Symbol.iterator]();
+  const running = new Map<number, Promise<Settled>>();
+  let pulling: Promise<Settled> | undefined;
+  let count = 0;
+  let done = false;
+
+  let stopListening = () => {};
+  const aborted = new Promise<Settled>((resolve) => {
+    if (!signal) return;
+    const onAbort = () => resolve({ type: 'aborted' });
+    if (signal.aborted) onAbort();
+    signal.addEventListener('abort', onAbort);
+    stopListening = () => signal.removeEventListener('abort', onAbort);
+  });
+
+  try {
+    while (!done || running.size) {
+      if (!done && !pulling && running.size < Math.max(1, limit)) {
+        pulling = Promise.resolve(iterator.next()).then((next) => ({ type: 'pulled', next }));
+      }
+
+      // Whichever comes first: the next item, a finished call or the abort
+      const settled = await Promise.race([
+        ...(pulling ? [pulling] : []),
+        ...running.values(),
+        aborted
+      ]);
+      if (settled.type === 'aborted') return;
+      if (settled.type === 'pulled') {
+        pulling = undefined;
+        if (settled.next.done) {
+          done = true;
+          continue;
+        }
+        const index = count++;
+        running.set(
+          index,
+          fn(settled.next.value, index).then((result) => ({ type: 'result', index, result }))
+        );
+        continue;
+      }
+
+      running.delete(settled.index);
+      yield settled.result;
+    }
+  } finally {
+    stopListening();
+    // Lets generators and streams feeding the items release their resources. A source still
+    // producing an item would hold up the return until it does, so it is not awaited then.
+    if (!done) {
+      const closing = Promise.resolve(iterator.return?.());
+      if (pulling) closing.catch(() => undefined);
+      else await closing;
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { ParseraValidationError } from '../errors/parsera.js';
+import {
+  filterCookies,
+  importCookies,
+  parseCookieJson,
+  parseNetscapeCookies,
+  parseSetCookie,
+  parseStorageState
+} from './cookies.js';
+
+// 2030-01-01T00:00:00Z
+const now = Date.UTC(2030, 0, 1);
+const future = now / 1000 + 3600;
+const past = now / 1000 - 3600;
+
+describe('cookie import', () => {
+  it('should convert Netscape cookies.txt files', () => {
+    const text = [
+      '# Netscape HTTP Cookie File',
+      '',
+      `.example.com\tTRUE\t/\tTRUE\t${future}\tsession\tabc`,
+      `#HttpOnly_shop.example.com\tFALSE\t/cart\tFALSE\t0\tcart\t1\t2`,
+      `.example.com\tTRUE\t/\tFALSE\t${past}\told\tx`
+    ].join('\n');
+
+    expect(parseNetscapeCookies(text, { now })).toEqual([
+      {
+        name: 'session',
+        value: 'abc',
+        domain: '.example.com',
+        path: '/',
+        expires: future,
+        secure: true,
+        httpOnly: false,
+        sameSite: 'Lax'
+      },
+      {
+        name: 'cart',
+        value: '1\t2',
+        domain: 'shop.example.com',
+        path: '/cart',
+        secure: false,
+        httpOnly: true,
+        sameSite: 'Lax'
+      }
+    ]);
+    expect(() => parseNetscapeCookies('example.com\tTRUE\t/')).toThrow(ParseraValidationError);
+  });
+
+  it('should convert extension and Puppeteer JSON exports', () => {
+    const cookies = parseCookieJson(
+      JSON.stringify([
+        {
+          name: 'a',
+          value: '1',
+          domain: 'example.com',
+          hostOnly: false,
+          path: '/',
+          expirationDate: future,
+          sameSite: 'no_restriction',
+          secure: true,
+          session: false
+        },
+        { name: 'b', value: '2', domain: 'example.com', expires: -1, sameSite: 'unspecified' }
+      ]),
+      { now }
+    );
+
+    expect(cookies).toEqual([
+      {
+        name: 'a',
+        value: '1',
+        domain: '.example.com',
+        path: '/',
+        expires: future,
+        secure: true,
+        sameSite: 'None'
+      },
+      { name: 'b', value: '2', domain: 'example.com', sameSite: 'Lax' }
+    ]);
+    expect(() => parseCookieJson('{"name":"a"}')).toThrow('must be an array');
+  });
+
+  it('should convert Playwright storage state', () => {
+    const state = {
+      cookies: [
+        { name: 'a', value: '1', domain: '.example.com', path: '/', expires: past },
+        {
+          name: 'b',
+          value: '2',
+          domain: '.example.com',
+          path: '/',
+          expires: -1,
+          sameSite: 'Strict'
+        }
+      ],
+      origins: []
+    };
+
+    expect(parseStorageState(state, { now })).toEqual([
+      { name: 'b', value: '2', domain: '.example.com', path: '/', sameSite: 'Strict' }
+    ]);
+    expect(() => parseStorageState('{}')).toThrow(ParseraValidationError);
+  });
+
+  it('should convert Set-Cookie headers relative to the response URL', () => {
+    const cookies = parseSetCookie(
+      [
+        'sid=abc=; Path=/; Domain=example.com; Secure; HttpOnly; SameSite=Strict; Max-Age=60',
+        'pref=dark; Expires=Wed, 01 Jan 2031 00:00:00 GMT',
+        'gone=1; Max-Age=0'
+      ],
+      { url: 'https://www.example.com/account/settings', now }
+    );
+
+    expect(cookies).toEqual([
+      {
+        name: 'sid',
+        value: 'abc=',
+        domain: '.example.com',
+        path: '/',
+        expires: now / 1000 + 60,
+        secure: true,
+        httpOnly: true,
+        sameSite: 'Strict'
+      },
+      {
+        name: 'pref',
+        value: 'dark',
+        domain: 'www.example.com',
+        path: '/account',
+        expires: Date.UTC(2031, 0, 1) / 1000,
+        sameSite: 'Lax'
+      }
+    ]);
+  });
+
+  it('should keep only the cookies sent to the target URL', () => {
+    const cookies = [
+      { name: 'parent', value: '1', domain: '.example.com', sameSite: 'Lax' as const },
+      { name: 'host', value: '2', domain: 'example.com', sameSite: 'Lax' as const },
+      { name: 'other', value: '3', domain: '.other.com', sameSite: 'Lax' as const },
+      { name: 'path', value: '4', path: '/shop', sameSite: 'Lax' as const },
+      { name: 'prefix', value: '5', path: '/sh', sameSite: 'Lax' as const },
+      { name: 'secure', value: '6', secure: true, sameSite: 'Lax' as const }
+    ];
+
+    const names = (url: string) => filterCookies(cookies, { url }).map(({ name }) => name);
+    expect(names('https://shop.example.com/shop/item')).toEqual(['parent', 'path', 'secure']);
+    expect(names('http://example.com/')).toEqual(['parent', 'host']);
+  });
+
+  it('should detect the format', () => {
+    const options = { url: 'https://example.com/', now };
+
+    expect(importCookies('[{"name":"a","value":"1"}]', options)).toHaveLength(1);
+    expect(importCookies('{"cookies":[{"name":"a","value":"1"}]}', options)).toHaveLength(1);
+    expect(importCookies(`example.com\tFALSE\t/\tFALSE\t0\ta\t1\n`, options)).toHaveLength(1);
+    expect(importCookies('Set-Cookie: a=1; Path=/\nb=2', options)).toEqual([
+      { name: 'a', value: '1', domain: 'example.com', path: '/', sameSite: 'Lax' },
+      { name: 'b', value: '2', domain: 'example.com', path: '/', sameSite: 'Lax' }
+    ]);
+  });
+});
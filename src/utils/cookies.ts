@@ -0,0 +1,316 @@
+import { ParseraValidationError } from '../errors/parsera.js';
+import type { ParseraCookie } from '../services/parsera.js';
+
+type SameSite = ParseraCookie['sameSite'];
+
+export interface CookieImportOptions {
+  /**
+   * Only keep the cookies a browser would send to this URL (domain, path and secure flag)
+   * Also the default domain and path of `Set-Cookie` headers without them
+   */
+  url?: string;
+
+  /**
+   * SameSite value for cookies exported without one
+   * @default "Lax"
+   */
+  sameSite?: SameSite;
+
+  /**
+   * Time (in milliseconds since epoch) used to drop expired cookies
+   * @default Date.now()
+   */
+  now?: number;
+}
+
+/**
+ * Cookie as exported by browser extensions (EditThisCookie, Cookie-Editor),
+ * Chrome DevTools, Puppeteer `page.cookies()` and Playwright `storageState()`
+ */
+export interface ExportedCookie {
+  name: string;
+  value: string;
+  domain?: string;
+  path?: string;
+  /** Puppeteer and Playwright expiry in seconds, -1 for session cookies */
+  expires?: number;
+  /** Extension expiry in seconds */
+  expirationDate?: number;
+  secure?: boolean;
+  httpOnly?: boolean;
+  hostOnly?: boolean;
+  session?: boolean;
+  sameSite?: string;
+}
+
+/**
+ * Playwright `storageState()` file contents
+ */
+export interface StorageState {
+  cookies: ExportedCookie[];
+}
+
+const SAME_SITE: Record<string, SameSite> = {
+  none: 'None',
+  no_restriction: 'None',
+  lax: 'Lax',
+  strict: 'Strict'
+};
+
+const normalizeSameSite = (value: string | undefined, fallback: SameSite): SameSite =>
+  (value && SAME_SITE[value.toLowerCase()]) || fallback;
+
+const domainMatches = (host: string, domain: string): boolean => {
+  const cookieDomain = domain.toLowerCase();
+  // A leading dot means subdomains are included, otherwise the host must match exactly
+  if (!cookieDomain.startsWith('.')) return host === cookieDomain;
+  return host === cookieDomain.slice(1) || host.endsWith(cookieDomain);
+};
+
+const pathMatches = (requestPath: string, cookiePath: string): boolean =>
+  requestPath === cookiePath ||
+  (requestPath.startsWith(cookiePath) &&
+    (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'));
+
+const parseUrl = (url: string): URL => {
+  try {
+    return new URL(url);
+  } catch {
+    throw new ParseraValidationError(`Invalid cookie URL: ${url}`);
+  }
+};
+
+/**
+ * Drops expired cookies and, when `url` is set, the cookies not sent to it
+ * @param cookies - Cookies to filter
+ * @param options - Target URL and reference time
+ * @returns The remaining cookies, in order
+ */
+export const filterCookies = (
+  cookies: ParseraCookie[],
+  { url, now = Date.now() }: CookieImportOptions = {}
+): ParseraCookie[] => {
+  const target = url ? parseUrl(url) : undefined;
+  return cookies.filter((cookie) => {
+    if (cookie.expires !== undefined && cookie.expires * 1000 <= now) return false;
+    if (!target) return true;
+    if (cookie.secure && target.protocol !== 'https:') return false;
+    if (cookie.domain && !domainMatches(target.hostname, cookie.domain)) return false;
+    return pathMatches(target.pathname, cookie.path ?? '/');
+  });
+};
+
+/**
+ * Converts a Netscape `cookies.txt` file, as written by curl, wget and browser extensions
+ * @param text - File contents
+ * @param options - Filtering options
+ * @throws {ParseraValidationError} When a line does not have the 7 tab-separated fields
+ * @returns The cookies, without expired ones
+ */
+export const parseNetscapeCookies = (
+  text: string,
+  options: CookieImportOptions = {}
+): ParseraCookie[] => {
+  const cookies: ParseraCookie[] = [];
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    let line = rawLine.trim();
+    const httpOnly = line.startsWith('#HttpOnly_');
+    if (httpOnly) line = line.slice('#HttpOnly_'.length);
+    if (!line || line.startsWith('#')) return;
+
+    const fields = line.split('\t');
+    if (fields.length < 7) {
+      throw new ParseraValidationError(
+        `Invalid cookies.txt line ${index + 1}: expected 7 tab-separated fields`
+      );
+    }
+    const [domain, includeSubdomains, path, secure, expires, name, ...value] = fields;
+    const expiry = Number(expires);
+    cookies.push({
+      name,
+      value: value.join('\t'),
+      domain:
+        includeSubdomains.toUpperCase() === 'TRUE' && !domain.startsWith('.')
+          ? `.${domain}`
+          : domain,
+      path,
+      // 0 marks a session cookie
+      ...(expiry > 0 && { expires: expiry }),
+      secure: secure.toUpperCase() === 'TRUE',
+      httpOnly,
+      sameSite: options.sameSite ?? 'Lax'
+    });
+  });
+  return filterCookies(cookies, options);
+};
+
+/**
+ * Converts cookies exported as JSON by browser extensions, Chrome DevTools or Puppeteer
+ * @param input - JSON text or the parsed array
+ * @param options - Filtering options
+ * @throws {ParseraValidationError} When the input is not an array of cookies
+ * @returns The cookies, without expired ones
+ */
+export const parseCookieJson = (
+  input: string | ExportedCookie[],
+  options: CookieImportOptions = {}
+): ParseraCookie[] => {
+  let exported: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      exported = JSON.parse(input);
+    } catch (error) {
+      throw new ParseraValidationError('Invalid cookie JSON', { cause: error });
+    }
+  }
+  if (!Array.isArray(exported)) {
+    throw new ParseraValidationError('Cookie JSON must be an array of cookies');
+  }
+
+  const cookies = exported.map((cookie: ExportedCookie, index): ParseraCookie => {
+    if (typeof cookie?.name !== 'string' || typeof cookie.value !== 'string') {
+      throw new ParseraValidationError(`Cookie ${index} must have a string name and value`);
+    }
+    const expires = cookie.session ? undefined : (cookie.expirationDate ?? cookie.expires);
+    const domain =
+      cookie.domain && cookie.hostOnly === false && !cookie.domain.startsWith('.')
+        ? `.${cookie.domain}`
+        : cookie.domain;
+    return {
+      name: cookie.name,
+      value: cookie.value,
+      ...(domain && { domain }),
+      ...(cookie.path && { path: cookie.path }),
+      // Puppeteer and Playwright use -1 for session cookies
+      ...(expires !== undefined && expires > 0 && { expires }),
+      ...(cookie.secure !== undefined && { secure: cookie.secure }),
+      ...(cookie.httpOnly !== undefined && { httpOnly: cookie.httpOnly }),
+      sameSite: normalizeSameSite(cookie.sameSite, options.sameSite ?? 'Lax')
+    };
+  });
+  return filterCookies(cookies, options);
+};
+
+/**
+ * Converts the cookies of a Playwright `storageState()` file
+ * Puppeteer's `page.cookies()` arrays are accepted as well
+ * @param input - JSON text or the parsed state
+ * @param options - Filtering options
+ * @throws {ParseraValidationError} When the input has no cookie list
+ * @returns The cookies, without expired ones
+ */
+export const parseStorageState = (
+  input: string | StorageState | ExportedCookie[],
+  options: CookieImportOptions = {}
+): ParseraCookie[] => {
+  let state: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      state = JSON.parse(input);
+    } catch (error) {
+      throw new ParseraValidationError('Invalid storage state JSON', { cause: error });
+    }
+  }
+  if (Array.isArray(state)) return parseCookieJson(state, options);
+  const cookies = (state as Partial<StorageState> | null)?.cookies;
+  if (!Array.isArray(cookies)) {
+    throw new ParseraValidationError('Storage state must have a cookies array');
+  }
+  return parseCookieJson(cookies, options);
+};
+
+/**
+ * Converts `Set-Cookie` response headers
+ * Cookies without `Domain` are bound to the host of `url`
+ * @param headers - One header value or several
+ * @param options - Filtering options; `url` is the URL the headers were received from
+ * @returns The cookies, without expired ones
+ */
+export const parseSetCookie = (
+  headers: string | string[],
+  options: CookieImportOptions = {}
+): ParseraCookie[] => {
+  const { now = Date.now() } = options;
+  const origin = options.url ? parseUrl(options.url) : undefined;
+  const cookies: ParseraCookie[] = [];
+
+  for (const header of Array.isArray(headers) ? headers : [headers]) {
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator < 1) continue;
+
+    const cookie: ParseraCookie = {
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim(),
+      sameSite: options.sameSite ?? 'Lax'
+    };
+    let maxAge: number | undefined;
+    for (const attribute of attributes) {
+      const [key, ...rest] = attribute.split('=');
+      const value = rest.join('=').trim();
+      switch (key.trim().toLowerCase()) {
+        case 'domain':
+          if (value) cookie.domain = `.${value.replace(/^\./, '')}`;
+          break;
+        case 'path':
+          if (value.startsWith('/')) cookie.path = value;
+          break;
+        case 'expires': {
+          const date = Date.parse(value);
+          if (!Number.isNaN(date)) cookie.expires = Math.floor(date / 1000);
+          break;
+        }
+        case 'max-age':
+          if (/^-?\d+$/.test(value)) maxAge = Number(value);
+          break;
+        case 'secure':
+          cookie.secure = true;
+          break;
+        case 'httponly':
+          cookie.httpOnly = true;
+          break;
+        case 'samesite':
+          cookie.sameSite = normalizeSameSite(value, cookie.sameSite);
+          break;
+      }
+    }
+    // Max-Age takes precedence over Expires
+    if (maxAge !== undefined) cookie.expires = Math.floor(now / 1000) + maxAge;
+    if (origin) {
+      cookie.domain ??= origin.hostname;
+      cookie.path ??= origin.pathname.slice(0, origin.pathname.lastIndexOf('/')) || '/';
+    }
+    cookies.push(cookie);
+  }
+  return filterCookies(cookies, options);
+};
+
+/**
+ * Converts cookies from any supported format, detected from the content:
+ * JSON exports, Playwright storage state, Netscape `cookies.txt` or `Set-Cookie` lines
+ * @param text - File or header contents
+ * @param options - Filtering options
+ * @returns The cookies, without expired ones
+ *
+ * @example
+ * ```typescript
+ * const cookies = importCookies(await readFile('cookies.txt', 'utf8'), {
+ *     url: 'https://example.com/account'
+ * });
+ * await parsera.extract({ url: 'https://example.com/account', attributes, cookies });
+ * ```
+ */
+export const importCookies = (text: string, options: CookieImportOptions = {}): ParseraCookie[] => {
+  const content = text.trim();
+  if (content.startsWith('[') || content.startsWith('{')) {
+    return parseStorageState(content, options);
+  }
+  const lines = content.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.some((line) => line.includes('\t') || line.startsWith('# Netscape'))) {
+    return parseNetscapeCookies(content, options);
+  }
+  return parseSetCookie(
+    lines.map((line) => line.replace(/^set-cookie:\s*/i, '')),
+    options
+  );
+};
@@ -0,0 +1,24 @@
+/**
+ * Escapes a single CSV field following RFC 4180
+ * Fields containing commas, quotes or line breaks are quoted
+ */
+export const escapeCsvField = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats a single CSV line for the given columns
+ */
+export const toCsvLine = (row: Record<string, unknown>, columns: string[]): string =>
+  columns.map((column) => escapeCsvField(row[column])).join(',');
+
+/**
+ * Collects the column names of a list of rows, in first-seen order
+ */
+export const collectColumns = (rows: Record<string, unknown>[]): string[] => {
+  const columns = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => columns.add(key)));
+  return Array.from(columns);
+};
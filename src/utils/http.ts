@@ -0,0 +1,20 @@
+/**
+ * Parses a `Retry-After` header value into a delay in milliseconds
+ * @param value - Header value, either delta-seconds or an HTTP date
+ * @returns The delay in milliseconds, or undefined if the value is missing or invalid
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+};
@@ -0,0 +1,32 @@
+export type RetryJitter = 'none' | 'full' | 'decorrelated';
+
+export interface RetryDelayOptions {
+  initialDelay: number;
+  backoffFactor: number;
+  maxDelay: number;
+  jitter: RetryJitter;
+}
+
+/**
+ * Computes the delay before the next retry
+ * @param retryCount - Number of retries already made (0 for the first retry)
+ * @param options - Backoff configuration
+ * @param previousDelay - Delay used for the previous retry, needed for decorrelated jitter
+ * @returns The delay in milliseconds, never above `maxDelay`
+ */
+export const computeRetryDelay = (
+  retryCount: number,
+  { initialDelay, backoffFactor, maxDelay, jitter }: RetryDelayOptions,
+  previousDelay = initialDelay
+): number => {
+  switch (jitter) {
+    case 'full':
+      return Math.random() * Math.min(maxDelay, initialDelay * Math.pow(backoffFactor, retryCount));
+    case 'decorrelated': {
+      const upper = Math.max(initialDelay, previousDelay * 3);
+      return Math.min(maxDelay, initialDelay + Math.random() * (upper - initialDelay));
+    }
+    default:
+      return Math.min(maxDelay, initialDelay * Math.pow(backoffFactor, retryCount));
+  }
+};
@@ -1,24 +1,54 @@
 import { z } from 'zod';
 import { BaseInput } from '../types/parsera.js';
-import { createInputSchema } from '../schemas/input.js';
+import {
+  createExtractOptionsSchema,
+  createInputSchema,
+  ProxyCountriesOptions
+} from '../schemas/input.js';
+import { ParseraValidationError } from '../errors/parsera.js';
+
+/**
+ * Converts a Zod error into a ParseraValidationError listing every invalid field
+ * @param error - The Zod error
+ * @param message - First line of the error message
+ */
+export const toValidationError = (error: z.ZodError, message: string): ParseraValidationError => {
+  const issues = error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message
+  }));
+  const errorMessages = issues.map(({ path, message }) => `${path}: ${message}`).join('\n');
+  return new ParseraValidationError(`${message}:\n${errorMessages}`, { issues });
+};
 
 /**
  * Validates the input configuration using Zod
  * @param input - The input object to validate
- * @throws {Error} If any validation fails with detailed error messages
+ * @param options - Fetch implementation and base URL used to look up proxy countries
+ * @throws {ParseraValidationError} If any validation fails with detailed error messages
  * @returns The validated input object
  */
-export const validateInput = async (input: unknown): Promise<BaseInput> => {
-  try {
-    const schema = await createInputSchema();
-    return schema.parse(input) as BaseInput;
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      const errorMessages = error.errors
-        .map((err) => `${err.path.join('.')}: ${err.message}`)
-        .join('\n');
-      throw new Error(`Input validation failed:\n${errorMessages}`);
-    }
-    throw error;
+export const validateInput = async (
+  input: unknown,
+  options: ProxyCountriesOptions = {}
+): Promise<BaseInput> => {
+  const schema = await createInputSchema(options);
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw toValidationError(result.error, 'Input validation failed');
+  }
+  return result.data as BaseInput;
+};
+
+/**
+ * Validates the options of an `extract` call before any request is sent
+ * @param options - The extract options
+ * @param countries - Accepted proxy countries; any name is accepted when omitted
+ * @throws {ParseraValidationError} Listing every invalid field
+ */
+export const validateExtractOptions = (options: unknown, countries?: readonly string[]): void => {
+  const result = createExtractOptionsSchema(countries).safeParse(options);
+  if (!result.success) {
+    throw toValidationError(result.error, 'Invalid extract options');
   }
 };